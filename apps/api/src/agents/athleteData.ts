@@ -0,0 +1,105 @@
+import { RecommendationRule } from '../../../../packages/types/recommendationRule';
+import { TrainingIntensity, WellnessMetricType } from '../../../../packages/types/training';
+import { fromSqlTimestamp, toSqlTimestamp } from '../utils/timestamps';
+import { AthleteData } from './holisticAgent';
+import { DEFAULT_RECOMMENDATION_RULES } from './recommendationRules';
+
+// Training and wellness older than this has no effect on the analysis
+const HISTORY_WINDOW_DAYS = 90;
+
+/**
+ * Loads everything HolisticAgent needs for one athlete within an organization from D1.
+ */
+export async function loadAthleteData(db: D1Database, organizationId: string, userId: string): Promise<AthleteData> {
+  const since = toSqlTimestamp(new Date(Date.now() - HISTORY_WINDOW_DAYS * 24 * 60 * 60 * 1000));
+
+  const [scores, training, wellness] = await db.batch([
+    db.prepare(
+      `SELECT category, score, recorded_at FROM athlete_scores
+       WHERE organization_id = ? AND user_id = ? ORDER BY recorded_at ASC`
+    ).bind(organizationId, userId),
+    db.prepare(
+      `SELECT id, type, duration, intensity, session_date FROM training_sessions
+       WHERE organization_id = ? AND user_id = ? AND session_date >= ? ORDER BY session_date ASC`
+    ).bind(organizationId, userId, since),
+    db.prepare(
+      `SELECT type, value, recorded_at FROM wellness_metrics
+       WHERE organization_id = ? AND user_id = ? AND recorded_at >= ? ORDER BY recorded_at ASC`
+    ).bind(organizationId, userId, since),
+  ]);
+
+  return {
+    userId,
+    scores: (scores.results as { category: string; score: number; recorded_at: string }[]).map((row) => ({
+      category: row.category,
+      score: row.score,
+      recordedAt: fromSqlTimestamp(row.recorded_at),
+    })),
+    trainingHistory: (
+      training.results as { id: string; type: string; duration: number; intensity: TrainingIntensity; session_date: string }[]
+    ).map((row) => ({
+      id: row.id,
+      type: row.type,
+      duration: row.duration,
+      intensity: row.intensity,
+      date: fromSqlTimestamp(row.session_date),
+    })),
+    wellnessMetrics: (wellness.results as { type: WellnessMetricType; value: number; recorded_at: string }[]).map(
+      (row) => ({
+        type: row.type,
+        value: row.value,
+        date: fromSqlTimestamp(row.recorded_at),
+      })
+    ),
+  };
+}
+
+export interface RecommendationRuleRow {
+  id: string;
+  name: string;
+  sport: string | null;
+  category_filter: string | null;
+  conditions: string;
+  priority: RecommendationRule['priority'];
+  category: string;
+  title: string;
+  description: string;
+  enabled: number;
+}
+
+/**
+ * Maps a recommendation_rules row onto the shared RecommendationRule shape.
+ */
+export function rowToRecommendationRule(row: RecommendationRuleRow): RecommendationRule {
+  return {
+    id: row.id,
+    name: row.name,
+    sport: row.sport,
+    categoryFilter: row.category_filter,
+    conditions: JSON.parse(row.conditions),
+    priority: row.priority,
+    category: row.category,
+    title: row.title,
+    description: row.description,
+    enabled: row.enabled === 1,
+  };
+}
+
+/**
+ * Loads an organization's enabled recommendation rules for a sport, including
+ * rules that apply to every sport. Falls back to the built-in rules when the
+ * organization has stored none.
+ */
+export async function loadRecommendationRules(
+  db: D1Database,
+  organizationId: string,
+  sport: string | null
+): Promise<RecommendationRule[]> {
+  const { results } = await db.prepare(
+    `SELECT * FROM recommendation_rules
+     WHERE organization_id = ? AND enabled = 1 AND (sport IS NULL OR sport = ?)
+     ORDER BY created_at ASC`
+  ).bind(organizationId, sport).all<RecommendationRuleRow>();
+
+  return results.length > 0 ? results.map(rowToRecommendationRule) : DEFAULT_RECOMMENDATION_RULES;
+}
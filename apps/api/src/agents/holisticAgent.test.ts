@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { TrainingIntensity, TrainingSession } from '../../../../packages/types/training';
+import { AthleteData, HolisticAgent, ScoreData } from './holisticAgent';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Midway through the given day, counting back from today, so day boundaries never decide a test
+function daysAgo(days: number): Date {
+  return new Date(Date.now() - (days + 0.5) * DAY_MS);
+}
+
+function session(days: number, duration: number, intensity: TrainingIntensity = 'medium'): TrainingSession {
+  return { id: `session-${days}`, type: 'Practice', duration, intensity, date: daysAgo(days) };
+}
+
+function score(days: number, value: number, category = 'speed'): ScoreData {
+  return { category, score: value, recordedAt: daysAgo(days) };
+}
+
+function athlete(overrides: Partial<AthleteData> = {}): AthleteData {
+  return { userId: 'athlete-1', scores: [], trainingHistory: [], wellnessMetrics: [], ...overrides };
+}
+
+// Every other day for the given number of days, which keeps monotony low
+function everyOtherDay(days: number, duration: number): TrainingSession[] {
+  return Array.from({ length: Math.ceil(days / 2) }, (_, i) => session(i * 2, duration));
+}
+
+describe('HolisticAgent training load', () => {
+  const agent = new HolisticAgent();
+
+  it('reports no ACWR for an athlete without three weeks of history', async () => {
+    const { trainingLoad, recommendations } = await agent.analyze(athlete({ trainingHistory: everyOtherDay(7, 60) }));
+
+    expect(trainingLoad.acwr).toBeNull();
+    expect(trainingLoad.injuryRisk).toBe('low');
+    expect(recommendations.map((r) => r.title)).not.toContain('Reduce Training Load');
+  });
+
+  it('keeps the ACWR near 1 for a steady load', async () => {
+    const { trainingLoad } = await agent.analyze(athlete({ trainingHistory: everyOtherDay(28, 60) }));
+
+    expect(trainingLoad.acwr).toBeGreaterThanOrEqual(0.8);
+    expect(trainingLoad.acwr).toBeLessThanOrEqual(1.3);
+    expect(trainingLoad.injuryRisk).toBe('low');
+  });
+
+  it('flags a spike in load against the chronic load', async () => {
+    const history = everyOtherDay(28, 30).map((s, i) => (i < 4 ? { ...s, duration: 120 } : s));
+    const { trainingLoad, recommendations } = await agent.analyze(athlete({ trainingHistory: history }));
+
+    expect(trainingLoad.acwr).toBeGreaterThan(1.5);
+    expect(trainingLoad.injuryRisk).toBe('high');
+    expect(recommendations.map((r) => r.title)).toContain('Reduce Training Load');
+  });
+
+  it('averages the chronic load over the weeks there is history for', async () => {
+    const { trainingLoad } = await agent.analyze(athlete({ trainingHistory: everyOtherDay(14, 60) }));
+
+    // Seven sessions of 60 medium minutes, the first of them 12 days ago: 13 days of history
+    expect(trainingLoad.chronicLoad).toBe(Math.round((7 * 60 * 5) / (13 / 7)));
+  });
+
+  it('reports no monotony or strain without training in the last week', async () => {
+    const { trainingLoad } = await agent.analyze(athlete({ trainingHistory: [session(10, 60)] }));
+
+    expect(trainingLoad.acuteLoad).toBe(0);
+    expect(trainingLoad.monotony).toBeNull();
+    expect(trainingLoad.strain).toBeNull();
+  });
+
+  it('derives monotony from the spread of daily load', async () => {
+    const { trainingLoad } = await agent.analyze(athlete({ trainingHistory: everyOtherDay(7, 60) }));
+
+    // 300 on four days of seven and 0 on the rest: mean / sd = sqrt(4 / 3)
+    expect(trainingLoad.acuteLoad).toBe(1200);
+    expect(trainingLoad.monotony).toBe(1.15);
+    expect(trainingLoad.strain).toBe(Math.round(1200 * Math.sqrt(4 / 3)));
+    expect(trainingLoad.injuryRisk).toBe('low');
+  });
+
+  it('caps monotony and flags the same load every day', async () => {
+    const history = Array.from({ length: 7 }, (_, day) => session(day, 60));
+    const { trainingLoad } = await agent.analyze(athlete({ trainingHistory: history }));
+
+    expect(trainingLoad.monotony).toBe(10);
+    expect(trainingLoad.strain).toBe(2100 * 10);
+    expect(trainingLoad.injuryRisk).toBe('high');
+  });
+});
+
+describe('HolisticAgent category trends', () => {
+  const agent = new HolisticAgent({ scoreHalfLifeDays: 30 });
+
+  it('weights recent scores more heavily than old ones', async () => {
+    const { categoryTrends } = await agent.analyze(athlete({ scores: [score(60, 50), score(0, 90)] }));
+
+    // 60.5 and 0.5 days old, against a 30-day half-life
+    const [oldWeight, newWeight] = [Math.pow(0.5, 60.5 / 30), Math.pow(0.5, 0.5 / 30)];
+    const expected = (50 * oldWeight + 90 * newWeight) / (oldWeight + newWeight);
+    expect(categoryTrends.speed.score).toBe(Math.round(expected * 10) / 10);
+    expect(categoryTrends.speed.score).toBeGreaterThan(70);
+  });
+
+  it('reports the slope in points per week', async () => {
+    // Two points a week better, one score a week for five weeks
+    const scores = [0, 1, 2, 3, 4].map((weeks) => score(weeks * 7, 80 - weeks * 2));
+    const { categoryTrends } = await agent.analyze(athlete({ scores }));
+
+    expect(categoryTrends.speed.slope).toBeCloseTo(2, 2);
+    expect(categoryTrends.speed.trajectory).toBe('improving');
+    expect(categoryTrends.speed.sampleSize).toBe(5);
+  });
+
+  it('reports a declining trajectory for falling scores', async () => {
+    const scores = [0, 1, 2, 3].map((weeks) => score(weeks * 7, 60 + weeks * 3));
+    const { categoryTrends } = await agent.analyze(athlete({ scores }));
+
+    expect(categoryTrends.speed.slope).toBeCloseTo(-3, 2);
+    expect(categoryTrends.speed.trajectory).toBe('declining');
+  });
+
+  it('treats a slope under a point a week as stable', async () => {
+    const scores = [0, 1, 2, 3].map((weeks) => score(weeks * 7, 70 - weeks * 0.5));
+    const { categoryTrends } = await agent.analyze(athlete({ scores }));
+
+    expect(categoryTrends.speed.slope).toBeCloseTo(0.5, 2);
+    expect(categoryTrends.speed.trajectory).toBe('stable');
+  });
+
+  it('reports no slope for a single score', async () => {
+    const { categoryTrends } = await agent.analyze(athlete({ scores: [score(3, 75)] }));
+
+    expect(categoryTrends.speed).toMatchObject({ score: 75, slope: 0, volatility: 0, trajectory: 'stable' });
+  });
+
+  it('keeps each category separate', async () => {
+    const { categoryTrends } = await agent.analyze(
+      athlete({ scores: [score(0, 90, 'speed'), score(0, 40, 'strength'), score(7, 30, 'strength')] })
+    );
+
+    expect(Object.keys(categoryTrends).sort()).toEqual(['speed', 'strength']);
+    expect(categoryTrends.speed.sampleSize).toBe(1);
+    expect(categoryTrends.strength.trajectory).toBe('improving');
+  });
+});
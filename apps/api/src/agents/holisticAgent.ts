@@ -5,85 +5,228 @@
  * based on their performance data, training history, and wellness metrics.
  */
 
-interface AthleteData {
+import { RecommendationRule, RulePriority } from '../../../../packages/types/recommendationRule';
+import { TrainingIntensity, TrainingSession, WellnessMetric } from '../../../../packages/types/training';
+import { DEFAULT_RECOMMENDATION_RULES, RuleMetricValues, evaluateRules } from './recommendationRules';
+
+export interface AthleteData {
   userId: string;
   scores: ScoreData[];
   trainingHistory: TrainingSession[];
   wellnessMetrics: WellnessMetric[];
 }
 
-interface ScoreData {
+export interface ScoreData {
   category: string;
   score: number;
   recordedAt: Date;
 }
 
-interface TrainingSession {
-  id: string;
-  type: string;
-  duration: number;
-  intensity: 'low' | 'medium' | 'high';
-  date: Date;
-}
-
-interface WellnessMetric {
-  type: 'sleep' | 'nutrition' | 'recovery' | 'stress';
-  value: number;
-  date: Date;
-}
-
-interface HolisticAnalysis {
+export interface HolisticAnalysis {
   overallScore: number;
   strengths: string[];
   areasForImprovement: string[];
   recommendations: Recommendation[];
+  categoryTrends: Record<string, CategoryTrend>;
+  trainingLoad: TrainingLoad;
+}
+
+export interface CategoryTrend {
+  score: number; // recency-weighted average
+  slope: number; // points per week
+  volatility: number; // standard deviation of the recorded scores
+  trajectory: 'improving' | 'declining' | 'stable';
+  sampleSize: number;
 }
 
-interface Recommendation {
+export interface TrainingLoad {
+  acuteLoad: number; // total load over the last 7 days
+  chronicLoad: number; // average weekly load over the last 28 days, or as many of them as there is history for
+  acwr: number | null; // acute:chronic workload ratio, null with less than 21 days of history
+  monotony: number | null; // mean / standard deviation of daily load over 7 days
+  strain: number | null; // acute load x monotony
+  injuryRisk: 'low' | 'moderate' | 'high';
+}
+
+export interface HolisticAgentOptions {
+  /** Days after which a score counts half as much as one recorded today */
+  scoreHalfLifeDays?: number;
+  /** Recommendation rules to evaluate; defaults to the built-in rules */
+  rules?: RecommendationRule[];
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DEFAULT_SCORE_HALF_LIFE_DAYS = 30;
+// A slope smaller than this (points per week) is treated as noise
+const TRAJECTORY_SLOPE_THRESHOLD = 1;
+// How far an improving or declining category may sit from a fixed cut-off and still count
+const TRAJECTORY_MARGIN = 10;
+
+// Session load is duration (minutes) x an RPE-style weight for the intensity
+const INTENSITY_LOAD_WEIGHTS: Record<TrainingIntensity, number> = {
+  low: 3,
+  medium: 5,
+  high: 8,
+};
+// Used for the injury-risk flag; recommendation thresholds live in the rules
+const ACWR_ELEVATED = 1.3;
+const ACWR_SPIKE = 1.5;
+// Days of training history needed before the chronic load means anything
+const CHRONIC_MIN_HISTORY_DAYS = 21;
+const MONOTONY_HIGH = 2;
+// Identical load every day has zero variance; report it as this instead of infinity
+const MONOTONY_MAX = 10;
+
+export interface Recommendation {
   category: string;
-  priority: 'high' | 'medium' | 'low';
+  priority: RulePriority;
   title: string;
   description: string;
 }
 
 export class HolisticAgent {
+  private readonly scoreHalfLifeDays: number;
+  private readonly rules: RecommendationRule[];
+
+  constructor(options: HolisticAgentOptions = {}) {
+    this.scoreHalfLifeDays = options.scoreHalfLifeDays ?? DEFAULT_SCORE_HALF_LIFE_DAYS;
+    this.rules = options.rules ?? DEFAULT_RECOMMENDATION_RULES;
+  }
+
   /**
    * Analyze athlete data and provide holistic recommendations
    */
   async analyze(data: AthleteData): Promise<HolisticAnalysis> {
-    const categoryScores = this.calculateCategoryScores(data);
+    const categoryTrends = this.calculateCategoryTrends(data);
+    const categoryScores = Object.fromEntries(
+      Object.entries(categoryTrends).map(([category, trend]) => [category, trend.score])
+    );
     const overallScore = this.calculateOverallScore(categoryScores);
-    const strengths = this.identifyStrengths(categoryScores);
-    const areasForImprovement = this.identifyWeaknesses(categoryScores);
-    const recommendations = this.generateRecommendations(data, categoryScores);
+    const strengths = this.identifyStrengths(categoryTrends);
+    const areasForImprovement = this.identifyWeaknesses(categoryTrends);
+    const trainingLoad = this.calculateTrainingLoad(data);
+    const recommendations = this.generateRecommendations(data, categoryTrends, overallScore, trainingLoad);
 
     return {
       overallScore,
       strengths,
       areasForImprovement,
       recommendations,
+      categoryTrends,
+      trainingLoad,
     };
   }
 
-  private calculateCategoryScores(data: AthleteData): Record<string, number> {
-    const scores: Record<string, number[]> = {};
+  private calculateCategoryTrends(data: AthleteData): Record<string, CategoryTrend> {
+    const scores: Record<string, ScoreData[]> = {};
 
     // Group scores by category
     for (const score of data.scores) {
       if (!scores[score.category]) {
         scores[score.category] = [];
       }
-      scores[score.category].push(score.score);
+      scores[score.category].push(score);
     }
 
-    // Calculate average for each category
-    const categoryScores: Record<string, number> = {};
+    const now = Date.now();
+    const trends: Record<string, CategoryTrend> = {};
+
     for (const [category, categoryScoreList] of Object.entries(scores)) {
-      const avg = categoryScoreList.reduce((a, b) => a + b, 0) / categoryScoreList.length;
-      categoryScores[category] = Math.round(avg * 10) / 10;
+      const values = categoryScoreList.map((s) => s.score);
+      const ages = categoryScoreList.map((s) => Math.max(0, (now - s.recordedAt.getTime()) / DAY_MS));
+
+      // Exponential decay: each half-life halves a score's influence
+      const weights = ages.map((age) => Math.pow(0.5, age / this.scoreHalfLifeDays));
+      const totalWeight = weights.reduce((a, b) => a + b, 0);
+      const weightedAvg = values.reduce((sum, value, i) => sum + value * weights[i], 0) / totalWeight;
+
+      const slope = this.calculateSlope(ages.map((age) => -age), values, weights) * 7;
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+
+      let trajectory: CategoryTrend['trajectory'] = 'stable';
+      if (slope >= TRAJECTORY_SLOPE_THRESHOLD) trajectory = 'improving';
+      else if (slope <= -TRAJECTORY_SLOPE_THRESHOLD) trajectory = 'declining';
+
+      trends[category] = {
+        score: Math.round(weightedAvg * 10) / 10,
+        slope: Math.round(slope * 100) / 100,
+        volatility: Math.round(Math.sqrt(variance) * 10) / 10,
+        trajectory,
+        sampleSize: values.length,
+      };
+    }
+
+    return trends;
+  }
+
+  /**
+   * Weighted least-squares slope of values over time (in days), so the trend
+   * follows recent results. Returns 0 when there are fewer than two points or
+   * they were all recorded at the same moment.
+   */
+  private calculateSlope(days: number[], values: number[], weights: number[]): number {
+    const n = days.length;
+    if (n < 2) return 0;
+
+    const totalWeight = weights.reduce((a, b) => a + b, 0);
+    const meanX = days.reduce((sum, x, i) => sum + x * weights[i], 0) / totalWeight;
+    const meanY = values.reduce((sum, y, i) => sum + y * weights[i], 0) / totalWeight;
+    let numerator = 0;
+    let denominator = 0;
+    for (let i = 0; i < n; i++) {
+      numerator += weights[i] * (days[i] - meanX) * (values[i] - meanY);
+      denominator += weights[i] * (days[i] - meanX) ** 2;
+    }
+
+    return denominator === 0 ? 0 : numerator / denominator;
+  }
+
+  private calculateTrainingLoad(data: AthleteData): TrainingLoad {
+    const now = Date.now();
+    // Daily load totals, index 0 = today, covering the 28-day chronic window
+    const dailyLoads = new Array<number>(28).fill(0);
+    // Days since the first session, which may be older than the window
+    let historyDays = 0;
+
+    for (const session of data.trainingHistory) {
+      const day = Math.floor((now - session.date.getTime()) / DAY_MS);
+      if (day < 0) continue;
+      historyDays = Math.max(historyDays, day);
+      if (day >= dailyLoads.length) continue;
+      dailyLoads[day] += session.duration * INTENSITY_LOAD_WEIGHTS[session.intensity];
     }
 
-    return categoryScores;
+    const acuteDays = dailyLoads.slice(0, 7);
+    const acuteLoad = acuteDays.reduce((a, b) => a + b, 0);
+    // Averaged over the weeks there is history for, so a short history is not diluted by empty weeks
+    const chronicWeeks = Math.min(historyDays + 1, dailyLoads.length) / 7;
+    const chronicLoad = dailyLoads.reduce((a, b) => a + b, 0) / chronicWeeks;
+    // Without enough history the acute load is most of the chronic load, and the ratio is meaningless
+    const acwr = historyDays >= CHRONIC_MIN_HISTORY_DAYS && chronicLoad > 0 ? acuteLoad / chronicLoad : null;
+
+    const meanDaily = acuteLoad / 7;
+    const sdDaily = Math.sqrt(acuteDays.reduce((sum, load) => sum + (load - meanDaily) ** 2, 0) / 7);
+    let monotony: number | null = null;
+    if (sdDaily > 0) monotony = Math.min(meanDaily / sdDaily, MONOTONY_MAX);
+    else if (meanDaily > 0) monotony = MONOTONY_MAX;
+    const strain = monotony !== null ? acuteLoad * monotony : null;
+
+    let injuryRisk: TrainingLoad['injuryRisk'] = 'low';
+    if ((acwr !== null && acwr > ACWR_SPIKE) || (monotony !== null && monotony > MONOTONY_HIGH)) {
+      injuryRisk = 'high';
+    } else if (acwr !== null && acwr > ACWR_ELEVATED) {
+      injuryRisk = 'moderate';
+    }
+
+    return {
+      acuteLoad: Math.round(acuteLoad),
+      chronicLoad: Math.round(chronicLoad),
+      acwr: acwr !== null ? Math.round(acwr * 100) / 100 : null,
+      monotony: monotony !== null ? Math.round(monotony * 100) / 100 : null,
+      strain: strain !== null ? Math.round(strain) : null,
+      injuryRisk,
+    };
   }
 
   private calculateOverallScore(categoryScores: Record<string, number>): number {
@@ -93,81 +236,72 @@ export class HolisticAgent {
     return Math.round(avg * 10) / 10;
   }
 
-  private identifyStrengths(categoryScores: Record<string, number>): string[] {
+  private identifyStrengths(categoryTrends: Record<string, CategoryTrend>): string[] {
     const threshold = 80;
-    return Object.entries(categoryScores)
-      .filter(([, score]) => score >= threshold)
+    // A high score that is sliding is not a strength; one climbing towards the cut-off is
+    return Object.entries(categoryTrends)
+      .filter(([, { score, trajectory }]) =>
+        trajectory === 'improving'
+          ? score >= threshold - TRAJECTORY_MARGIN
+          : score >= threshold && trajectory !== 'declining'
+      )
       .map(([category]) => category)
-      .sort((a, b) => categoryScores[b] - categoryScores[a]);
+      .sort((a, b) => categoryTrends[b].score - categoryTrends[a].score);
   }
 
-  private identifyWeaknesses(categoryScores: Record<string, number>): string[] {
+  private identifyWeaknesses(categoryTrends: Record<string, CategoryTrend>): string[] {
     const threshold = 60;
-    return Object.entries(categoryScores)
-      .filter(([, score]) => score < threshold)
+    // A declining category is flagged before it drops below the cut-off
+    return Object.entries(categoryTrends)
+      .filter(([, { score, trajectory }]) =>
+        trajectory === 'declining' ? score < threshold + TRAJECTORY_MARGIN : score < threshold
+      )
       .map(([category]) => category)
-      .sort((a, b) => categoryScores[a] - categoryScores[b]);
+      .sort((a, b) => categoryTrends[a].score - categoryTrends[b].score);
   }
 
   private generateRecommendations(
     data: AthleteData,
-    categoryScores: Record<string, number>
+    categoryTrends: Record<string, CategoryTrend>,
+    overallScore: number,
+    trainingLoad: TrainingLoad
   ): Recommendation[] {
-    const recommendations: Recommendation[] = [];
-
-    // Check for low scores and generate recommendations
-    for (const [category, score] of Object.entries(categoryScores)) {
-      if (score < 60) {
-        recommendations.push({
-          category,
-          priority: 'high',
-          title: `Improve ${category}`,
-          description: `Your ${category} score is ${score}. Focus on targeted training to improve this area.`,
-        });
-      } else if (score < 75) {
-        recommendations.push({
-          category,
-          priority: 'medium',
-          title: `Enhance ${category}`,
-          description: `Your ${category} score is ${score}. Consistent practice will help you reach the next level.`,
-        });
-      }
-    }
-
-    // Check training consistency
-    const recentSessions = data.trainingHistory.filter((session) => {
-      const daysSince = (Date.now() - session.date.getTime()) / (1000 * 60 * 60 * 24);
-      return daysSince <= 7;
-    });
-
-    if (recentSessions.length < 3) {
-      recommendations.push({
-        category: 'training',
-        priority: 'high',
-        title: 'Increase Training Frequency',
-        description: 'You have had fewer than 3 training sessions this week. Aim for at least 4-5 sessions.',
-      });
-    }
+    const athleteValues: RuleMetricValues = {
+      overallScore,
+      'training.sessionsLast7Days': data.trainingHistory.filter((session) => {
+        const daysSince = (Date.now() - session.date.getTime()) / DAY_MS;
+        return daysSince <= 7;
+      }).length,
+      'training.acuteLoad': trainingLoad.acuteLoad,
+      'training.chronicLoad': trainingLoad.chronicLoad,
+      'training.acwr': trainingLoad.acwr ?? undefined,
+      'training.monotony': trainingLoad.monotony ?? undefined,
+      'training.strain': trainingLoad.strain ?? undefined,
+    };
 
-    // Check wellness metrics
+    // Wellness aggregates are 7-day averages, left undefined when nothing was logged
     const recentWellness = data.wellnessMetrics.filter((metric) => {
-      const daysSince = (Date.now() - metric.date.getTime()) / (1000 * 60 * 60 * 24);
+      const daysSince = (Date.now() - metric.date.getTime()) / DAY_MS;
       return daysSince <= 7;
     });
-
-    const sleepMetrics = recentWellness.filter((m) => m.type === 'sleep');
-    if (sleepMetrics.length > 0) {
-      const avgSleep = sleepMetrics.reduce((a, b) => a + b.value, 0) / sleepMetrics.length;
-      if (avgSleep < 7) {
-        recommendations.push({
-          category: 'wellness',
-          priority: 'high',
-          title: 'Improve Sleep Quality',
-          description: `Your average sleep is ${avgSleep.toFixed(1)} hours. Aim for 7-9 hours for optimal recovery.`,
-        });
+    for (const type of ['sleep', 'nutrition', 'recovery', 'stress'] as const) {
+      const metrics = recentWellness.filter((m) => m.type === type);
+      if (metrics.length > 0) {
+        athleteValues[`wellness.${type}`] = metrics.reduce((a, b) => a + b.value, 0) / metrics.length;
       }
     }
 
+    const categoryValues: Record<string, RuleMetricValues> = {};
+    for (const [category, trend] of Object.entries(categoryTrends)) {
+      categoryValues[category] = {
+        'category.score': trend.score,
+        'category.slope': trend.slope,
+        'category.volatility': trend.volatility,
+      };
+    }
+
+    const recommendations = evaluateRules(this.rules, athleteValues, categoryValues);
+
     return recommendations.sort((a, b) => {
       const priorityOrder = { high: 0, medium: 1, low: 2 };
       return priorityOrder[a.priority] - priorityOrder[b.priority];
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { RecommendationRule } from '../../../../packages/types/recommendationRule';
+import { DEFAULT_RECOMMENDATION_RULES, evaluateRules } from './recommendationRules';
+
+function rule(overrides: Partial<RecommendationRule> = {}): RecommendationRule {
+  return {
+    id: 'rule-1',
+    name: 'Test rule',
+    conditions: [{ metric: 'wellness.sleep', operator: 'lt', value: 7 }],
+    priority: 'high',
+    category: 'wellness',
+    title: 'Sleep more',
+    description: 'You sleep {{wellness.sleep}} hours.',
+    enabled: true,
+    ...overrides,
+  };
+}
+
+describe('evaluateRules', () => {
+  it('fires a rule whose conditions all hold', () => {
+    const recommendations = evaluateRules([rule()], { 'wellness.sleep': 6.5 }, {});
+
+    expect(recommendations).toEqual([
+      { category: 'wellness', priority: 'high', title: 'Sleep more', description: 'You sleep 6.5 hours.' },
+    ]);
+  });
+
+  it('needs every condition to hold', () => {
+    const elevated = rule({
+      conditions: [
+        { metric: 'training.acwr', operator: 'gt', value: 1.3 },
+        { metric: 'training.acwr', operator: 'lte', value: 1.5 },
+      ],
+    });
+
+    expect(evaluateRules([elevated], { 'training.acwr': 1.4 }, {})).toHaveLength(1);
+    expect(evaluateRules([elevated], { 'training.acwr': 1.6 }, {})).toHaveLength(0);
+  });
+
+  it('compares with each operator', () => {
+    const fires = (operator: RecommendationRule['conditions'][number]['operator'], actual: number) =>
+      evaluateRules([rule({ conditions: [{ metric: 'wellness.sleep', operator, value: 7 }] })], { 'wellness.sleep': actual }, {})
+        .length === 1;
+
+    expect([fires('lt', 6), fires('lt', 7)]).toEqual([true, false]);
+    expect([fires('lte', 7), fires('lte', 8)]).toEqual([true, false]);
+    expect([fires('gt', 8), fires('gt', 7)]).toEqual([true, false]);
+    expect([fires('gte', 7), fires('gte', 6)]).toEqual([true, false]);
+    expect([fires('eq', 7), fires('eq', 7.5)]).toEqual([true, false]);
+  });
+
+  it('never fires on a metric with no value', () => {
+    expect(evaluateRules([rule()], {}, {})).toEqual([]);
+  });
+
+  it('skips disabled rules', () => {
+    expect(evaluateRules([rule({ enabled: false })], { 'wellness.sleep': 5 }, {})).toEqual([]);
+  });
+
+  it('runs a category rule once for every category', () => {
+    const low = rule({
+      conditions: [{ metric: 'category.score', operator: 'lt', value: 60 }],
+      category: '{{category}}',
+      title: 'Improve {{category}}',
+      description: '{{category}} is at {{category.score}}',
+    });
+    const recommendations = evaluateRules([low], {}, {
+      speed: { 'category.score': 55 },
+      strength: { 'category.score': 80 },
+      agility: { 'category.score': 42.456 },
+    });
+
+    expect(recommendations.map((r) => r.title)).toEqual(['Improve speed', 'Improve agility']);
+    expect(recommendations[1]).toMatchObject({ category: 'agility', description: 'agility is at 42.46' });
+  });
+
+  it('limits a category rule to its categoryFilter', () => {
+    const low = rule({ conditions: [{ metric: 'category.score', operator: 'lt', value: 60 }], categoryFilter: 'speed' });
+    const recommendations = evaluateRules([low], {}, {
+      speed: { 'category.score': 55 },
+      agility: { 'category.score': 40 },
+    });
+
+    expect(recommendations).toHaveLength(1);
+  });
+
+  it('combines athlete-wide and category values in a category rule', () => {
+    const tired = rule({
+      conditions: [
+        { metric: 'category.slope', operator: 'lt', value: 0 },
+        { metric: 'wellness.sleep', operator: 'lt', value: 7 },
+      ],
+      description: '{{category}} fell {{category.slope}} a week on {{wellness.sleep}} hours of sleep',
+    });
+    const recommendations = evaluateRules([tired], { 'wellness.sleep': 6 }, { speed: { 'category.slope': -2 } });
+
+    expect(recommendations.map((r) => r.description)).toEqual(['speed fell -2 a week on 6 hours of sleep']);
+  });
+
+  it('leaves placeholders it cannot fill in place', () => {
+    const recommendations = evaluateRules(
+      [rule({ title: 'Sleep {{ wellness.sleep }} for {{category}}', description: 'Stress {{wellness.stress}}' })],
+      { 'wellness.sleep': 6 },
+      {}
+    );
+
+    expect(recommendations[0]).toMatchObject({ title: 'Sleep 6 for {{category}}', description: 'Stress {{wellness.stress}}' });
+  });
+
+  it('recommends reducing load for a workload spike with the default rules', () => {
+    const recommendations = evaluateRules(
+      DEFAULT_RECOMMENDATION_RULES,
+      { 'training.sessionsLast7Days': 5, 'training.acwr': 1.72 },
+      {}
+    );
+
+    expect(recommendations.map((r) => r.title)).toEqual(['Reduce Training Load']);
+    expect(recommendations[0].description).toContain('ratio is 1.72');
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  RecommendationRule,
+  RuleCondition,
+  RuleMetric,
+  categoryRuleMetrics,
+} from '../../../../packages/types/recommendationRule';
+import type { Recommendation } from './holisticAgent';
+
+export type RuleMetricValues = Partial<Record<RuleMetric, number>>;
+
+/**
+ * Built-in rules used when no custom rules are configured for a sport.
+ */
+export const DEFAULT_RECOMMENDATION_RULES: RecommendationRule[] = [
+  {
+    id: 'default-low-category-score',
+    name: 'Low category score',
+    conditions: [{ metric: 'category.score', operator: 'lt', value: 60 }],
+    priority: 'high',
+    category: '{{category}}',
+    title: 'Improve {{category}}',
+    description: 'Your {{category}} score is {{category.score}}. Focus on targeted training to improve this area.',
+    enabled: true,
+  },
+  {
+    id: 'default-moderate-category-score',
+    name: 'Moderate category score',
+    conditions: [
+      { metric: 'category.score', operator: 'gte', value: 60 },
+      { metric: 'category.score', operator: 'lt', value: 75 },
+    ],
+    priority: 'medium',
+    category: '{{category}}',
+    title: 'Enhance {{category}}',
+    description: 'Your {{category}} score is {{category.score}}. Consistent practice will help you reach the next level.',
+    enabled: true,
+  },
+  {
+    id: 'default-low-training-frequency',
+    name: 'Low training frequency',
+    conditions: [{ metric: 'training.sessionsLast7Days', operator: 'lt', value: 3 }],
+    priority: 'high',
+    category: 'training',
+    title: 'Increase Training Frequency',
+    description: 'You have had fewer than 3 training sessions this week. Aim for at least 4-5 sessions.',
+    enabled: true,
+  },
+  {
+    id: 'default-workload-spike',
+    name: 'Workload spike',
+    conditions: [{ metric: 'training.acwr', operator: 'gt', value: 1.5 }],
+    priority: 'high',
+    category: 'training',
+    title: 'Reduce Training Load',
+    description:
+      'Your acute:chronic workload ratio is {{training.acwr}}, well above the safe range of 0.8-1.3. Scale back volume or intensity this week to lower injury risk.',
+    enabled: true,
+  },
+  {
+    id: 'default-workload-elevated',
+    name: 'Elevated workload',
+    conditions: [
+      { metric: 'training.acwr', operator: 'gt', value: 1.3 },
+      { metric: 'training.acwr', operator: 'lte', value: 1.5 },
+    ],
+    priority: 'medium',
+    category: 'training',
+    title: 'Monitor Training Load',
+    description: 'Your acute:chronic workload ratio is {{training.acwr}}. Avoid further increases until your body adapts.',
+    enabled: true,
+  },
+  {
+    id: 'default-high-monotony',
+    name: 'High training monotony',
+    conditions: [{ metric: 'training.monotony', operator: 'gt', value: 2 }],
+    priority: 'high',
+    category: 'training',
+    title: 'Vary Training Intensity',
+    description:
+      'Your training monotony is {{training.monotony}}. Mix lighter days and rest days into your week to reduce strain.',
+    enabled: true,
+  },
+  {
+    id: 'default-low-sleep',
+    name: 'Low sleep',
+    conditions: [{ metric: 'wellness.sleep', operator: 'lt', value: 7 }],
+    priority: 'high',
+    category: 'wellness',
+    title: 'Improve Sleep Quality',
+    description: 'Your average sleep is {{wellness.sleep}} hours. Aim for 7-9 hours for optimal recovery.',
+    enabled: true,
+  },
+];
+
+function conditionHolds(condition: RuleCondition, values: RuleMetricValues): boolean {
+  const actual = values[condition.metric];
+  // Missing data (no wellness logged, no chronic load yet) never triggers a rule
+  if (actual === undefined) return false;
+
+  switch (condition.operator) {
+    case 'lt':
+      return actual < condition.value;
+    case 'lte':
+      return actual <= condition.value;
+    case 'gt':
+      return actual > condition.value;
+    case 'gte':
+      return actual >= condition.value;
+    case 'eq':
+      return actual === condition.value;
+    default:
+      return false;
+  }
+}
+
+function renderTemplate(template: string, category: string | null, values: RuleMetricValues): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) => {
+    if (key === 'category') return category ?? match;
+    const value = values[key as RuleMetric];
+    return value === undefined ? match : String(Math.round(value * 100) / 100);
+  });
+}
+
+function isCategoryRule(rule: RecommendationRule): boolean {
+  return rule.conditions.some((condition) =>
+    (categoryRuleMetrics as readonly string[]).includes(condition.metric)
+  );
+}
+
+/**
+ * Evaluates rules against athlete-wide aggregates and per-category values.
+ * Rules that reference a category metric run once for every category (or only
+ * for `categoryFilter` when set); all other rules run once.
+ */
+export function evaluateRules(
+  rules: RecommendationRule[],
+  athleteValues: RuleMetricValues,
+  categoryValues: Record<string, RuleMetricValues>
+): Recommendation[] {
+  const recommendations: Recommendation[] = [];
+
+  const fire = (rule: RecommendationRule, category: string | null, values: RuleMetricValues) => {
+    if (!rule.conditions.every((condition) => conditionHolds(condition, values))) return;
+    recommendations.push({
+      category: renderTemplate(rule.category, category, values),
+      priority: rule.priority,
+      title: renderTemplate(rule.title, category, values),
+      description: renderTemplate(rule.description, category, values),
+    });
+  };
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    if (!isCategoryRule(rule)) {
+      fire(rule, null, athleteValues);
+      continue;
+    }
+
+    for (const [category, values] of Object.entries(categoryValues)) {
+      if (rule.categoryFilter && rule.categoryFilter !== category) continue;
+      fire(rule, category, { ...athleteValues, ...values });
+    }
+  }
+
+  return recommendations;
+}
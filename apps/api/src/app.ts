@@ -0,0 +1,86 @@
+import { Hono } from 'hono';
+import { except } from 'hono/combine';
+import { apiKeyMiddleware } from './middleware/apiKeyMiddleware';
+import { auditMiddleware } from './middleware/auditMiddleware';
+import { organizationMiddleware, requireOrganization } from './middleware/organizationMiddleware';
+import { permissionMiddleware } from './middleware/permissionMiddleware';
+import userRoutes from './routes/user';
+import jobBoardRoutes from './routes/jobBoard';
+import jobApplicationRoutes from './routes/jobApplications';
+import scoreRoutes from './routes/scores';
+import trainingRoutes from './routes/training';
+import wellnessRoutes from './routes/wellness';
+import analysisRoutes from './routes/analysis';
+import recommendationRuleRoutes from './routes/recommendationRules';
+import teamRoutes from './routes/teams';
+import organizationRoutes from './routes/organizations';
+import apiKeyRoutes from './routes/apiKeys';
+import auditLogRoutes from './routes/auditLog';
+import billingRoutes from './routes/billing';
+import billingWebhookRoutes from './routes/billingWebhook';
+import clerkWebhookRoutes from './routes/clerkWebhook';
+import { docsPage } from './openapi/docsPage';
+import { openApiDocument } from './openapi/document';
+import { apiError, handleRouteError } from './utils/errors';
+
+export type Bindings = {
+  DB: D1Database;
+  CLERK_SECRET_KEY: string;
+  CLERK_ISSUERS: string;
+  CLERK_AUTHORIZED_PARTIES: string;
+  CLERK_WEBHOOK_SECRET: string;
+  STRIPE_WEBHOOK_SECRET: string;
+  STRIPE_PRICE_PLANS: string;
+};
+
+// The Worker entry point in index.ts serves this; tests load it directly
+export const app = new Hono<{ Bindings: Bindings }>();
+
+// Health check endpoint
+app.get('/health', (c) => {
+  return c.json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+// API description for partners and tooling, and a reference page built from it
+app.get('/openapi.json', (c) => c.json(openApiDocument()));
+app.get('/docs', (c) => c.html(docsPage));
+
+// Authenticate protected routes with a Clerk session or an API key, then
+// resolve the caller's organization and role. Everything but organization
+// management and accepting a team invitation (which joins the team's
+// organization) is tenant-scoped.
+app.use('/api/*', apiKeyMiddleware());
+app.use('/api/*', organizationMiddleware());
+app.use('/api/*', permissionMiddleware());
+app.use('/api/*', except(['/api/organizations/*', '/api/teams/invitations/*'], requireOrganization()));
+// Log every successful write once the route has run
+app.use('/api/*', auditMiddleware());
+
+// Mount routes. Their chained type is AppType, which packages/api-client is typed from.
+const apiRoutes = app
+  .route('/api/organizations', organizationRoutes)
+  .route('/api/users', userRoutes)
+  .route('/api/users', trainingRoutes)
+  .route('/api/users', wellnessRoutes)
+  .route('/api/users', analysisRoutes)
+  .route('/api/teams', teamRoutes)
+  .route('/api/jobs', jobApplicationRoutes)
+  .route('/api/jobs', jobBoardRoutes)
+  .route('/api/scores', scoreRoutes)
+  .route('/api/recommendation-rules', recommendationRuleRoutes)
+  .route('/api/api-keys', apiKeyRoutes)
+  .route('/api/audit-log', auditLogRoutes)
+  .route('/api/billing', billingRoutes);
+
+// Called by Stripe and Clerk rather than API clients, so not part of AppType
+const webhookRoutes = app
+  .route('/webhooks/billing', billingWebhookRoutes)
+  .route('/webhooks/clerk', clerkWebhookRoutes);
+
+export type AppType = typeof apiRoutes;
+export type WebhookAppType = typeof webhookRoutes;
+
+// Return auth, permission and validation failures in the same shape as route errors
+app.onError((err, c) => handleRouteError(c, err, 'Internal server error'));
+
+app.notFound((c) => apiError(c, 404, 'Not Found: no such route'));
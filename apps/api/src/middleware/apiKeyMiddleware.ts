@@ -0,0 +1,140 @@
+import { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { HTTPException } from 'hono/http-exception';
+import { ApiKeyScope } from '../../../../packages/types/apiKey';
+import { OrganizationRole } from '../../../../packages/types/organization';
+import { fromSqlTimestamp, toSqlTimestamp } from '../utils/timestamps';
+import { clerkMiddleware } from './clerkMiddleware';
+
+export interface AuthenticatedApiKey {
+  id: string;
+  organizationId: string;
+  scopes: ApiKeyScope[];
+  // The creator's roles as they are now, which cap what the scopes grant
+  creatorRole: string;
+  creatorOrgRole: OrganizationRole;
+}
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    // Set when the request authenticated with an API key rather than a Clerk session
+    apiKey: AuthenticatedApiKey | undefined;
+  }
+}
+
+type ApiKeyBindings = {
+  DB: D1Database;
+};
+
+export const API_KEY_PREFIX = 'apx_';
+
+// last_used_at is only written when it is older than this, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Hashes an API key for storage and lookup. Keys are 256 random bits, so a
+ * plain SHA-256 is as hard to reverse as the key is to guess.
+ */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Creates a new random API key, e.g. "apx_3q2-7w…".
+ */
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const base64url = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+  return `${API_KEY_PREFIX}${base64url}`;
+}
+
+function unauthorized(message: string, code: string): never {
+  throw new HTTPException(401, {
+    res: new Response(JSON.stringify({ error: `Unauthorized: ${message}`, code }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    }),
+  });
+}
+
+/**
+ * Authenticates the request with an API key when the bearer token is one, and
+ * hands everything else to clerkMiddleware. Either way the caller ends up in
+ * c.get('user'): a key acts as the user who created it, for as long as that
+ * user is still a member of the key's organization, and never with more
+ * permissions than that user currently has.
+ */
+export const apiKeyMiddleware = () => {
+  const clerk = clerkMiddleware();
+
+  return createMiddleware<{ Bindings: ApiKeyBindings }>(async (c, next) => {
+    const authHeader = c.req.header('Authorization');
+
+    if (!authHeader?.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+      return clerk(c as Context, next);
+    }
+
+    const key = await c.env.DB.prepare(
+      `SELECT api_keys.id, api_keys.organization_id, api_keys.scopes, api_keys.created_by,
+              api_keys.last_used_at, api_keys.expires_at, api_keys.revoked_at,
+              users.email, users.first_name, users.last_name, users.role,
+              organization_members.role AS org_role
+       FROM api_keys
+       JOIN users ON users.id = api_keys.created_by
+       JOIN organization_members ON organization_members.user_id = api_keys.created_by
+         AND organization_members.organization_id = api_keys.organization_id
+       WHERE api_keys.key_hash = ?`
+    ).bind(await hashApiKey(authHeader.substring(7))).first<{
+      id: string;
+      organization_id: string;
+      scopes: string;
+      created_by: string;
+      last_used_at: string | null;
+      expires_at: string | null;
+      revoked_at: string | null;
+      email: string;
+      first_name: string;
+      last_name: string;
+      role: string;
+      org_role: OrganizationRole;
+    }>();
+
+    if (!key) {
+      unauthorized('Invalid API key', 'invalid_api_key');
+    }
+    if (key.revoked_at) {
+      unauthorized('API key has been revoked', 'revoked_api_key');
+    }
+    if (key.expires_at && fromSqlTimestamp(key.expires_at) <= new Date()) {
+      unauthorized('API key has expired', 'expired_api_key');
+    }
+
+    const now = new Date();
+    if (!key.last_used_at || now.getTime() - fromSqlTimestamp(key.last_used_at).getTime() >= LAST_USED_RESOLUTION_MS) {
+      await c.env.DB.prepare(
+        'UPDATE api_keys SET last_used_at = ? WHERE id = ?'
+      ).bind(toSqlTimestamp(now), key.id).run();
+    }
+
+    c.set('user', {
+      id: key.created_by,
+      email: key.email,
+      firstName: key.first_name,
+      lastName: key.last_name,
+    });
+    c.set('apiKey', {
+      id: key.id,
+      organizationId: key.organization_id,
+      scopes: JSON.parse(key.scopes),
+      creatorRole: key.role,
+      creatorOrgRole: key.org_role,
+    });
+    await next();
+  });
+};
@@ -0,0 +1,96 @@
+import { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { routePath } from 'hono/route';
+import { AuditChanges } from '../../../../packages/types/auditLog';
+
+export interface AuditChange {
+  action: string;
+  entityType: string;
+  entityId: string;
+  // The entity's row before and after the write; omit `before` for creations and `after` for deletions
+  before?: object | null;
+  after?: object | null;
+  // Defaults to the request's active organization
+  organizationId?: string;
+}
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    auditChange: AuditChange | undefined;
+  }
+}
+
+type AuditBindings = {
+  DB: D1Database;
+};
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+// Bookkeeping columns that change on every write and say nothing about it
+const IGNORED_FIELDS = new Set(['updated_at']);
+
+/**
+ * Lists the fields that differ between two versions of a row.
+ */
+function diffRecords(before: object | null | undefined, after: object | null | undefined): AuditChanges {
+  const changes: AuditChanges = {};
+  const from = (before ?? {}) as Record<string, unknown>;
+  const to = (after ?? {}) as Record<string, unknown>;
+
+  for (const field of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    if (JSON.stringify(from[field] ?? null) !== JSON.stringify(to[field] ?? null)) {
+      changes[field] = { from: from[field] ?? null, to: to[field] ?? null };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Describes the write a route made, for auditMiddleware to log once the
+ * route has succeeded. Routes that do not call this are still logged, by
+ * method and route.
+ */
+export function recordChange(c: Context, change: AuditChange) {
+  c.set('auditChange', change);
+}
+
+/**
+ * Appends an audit_log entry for every successful write: who made it, with
+ * which API key if any, from which IP, what it changed, and when. Must run
+ * after the caller has been authenticated. A failure to log is reported but
+ * does not fail a write that has already happened.
+ */
+export const auditMiddleware = () => {
+  return createMiddleware<{ Bindings: AuditBindings }>(async (c, next) => {
+    await next();
+
+    if (READ_METHODS.has(c.req.method) || c.res.status >= 400) {
+      return;
+    }
+
+    const change = c.get('auditChange');
+    const changes = change ? diffRecords(change.before, change.after) : null;
+
+    try {
+      await c.env.DB.prepare(
+        `INSERT INTO audit_log
+           (organization_id, actor_id, api_key_id, action, entity_type, entity_id, changes, method, path, status, ip_address)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        change?.organizationId ?? c.get('organizationId') ?? null,
+        c.get('user')?.id ?? null,
+        c.get('apiKey')?.id ?? null,
+        change?.action ?? `${c.req.method} ${routePath(c, -1)}`,
+        change?.entityType ?? null,
+        change?.entityId ?? null,
+        changes ? JSON.stringify(changes) : null,
+        c.req.method,
+        c.req.path,
+        c.res.status,
+        c.req.header('CF-Connecting-IP') ?? c.req.header('X-Forwarded-For')?.split(',')[0].trim() ?? null
+      ).run();
+    } catch (error) {
+      console.error('Failed to write audit log entry:', error);
+    }
+  });
+};
@@ -6,6 +6,7 @@ interface ClerkUser {
   email: string;
   firstName?: string;
   lastName?: string;
+  orgId?: string;
 }
 
 interface JWK {
@@ -21,15 +22,22 @@ interface JWKS {
   keys: JWK[];
 }
 
+interface JWTHeader {
+  alg?: string;
+  kid?: string;
+}
+
 interface JWTPayload {
   sub: string;
   email?: string;
   first_name?: string;
   last_name?: string;
   exp?: number;
+  nbf?: number;
   iat?: number;
   iss?: string;
   azp?: string;
+  org_id?: string;
 }
 
 declare module 'hono' {
@@ -40,36 +48,98 @@ declare module 'hono' {
 
 type ClerkBindings = {
   CLERK_SECRET_KEY: string;
+  // Comma-separated Frontend API URLs whose tokens we accept, e.g. https://clerk.example.com
+  CLERK_ISSUERS?: string;
+  // Comma-separated origins allowed as the token's azp; when unset, azp is not checked
+  CLERK_AUTHORIZED_PARTIES?: string;
 };
 
-// Cache for JWKS to avoid fetching on every request
-let jwksCache: { keys: JWKS; fetchedAt: number } | null = null;
+// The codes a rejected token gets; the README lists them under "API errors"
+export type TokenErrorCode =
+  | 'missing_token'
+  | 'malformed'
+  | 'unsupported_algorithm'
+  | 'issuer_not_allowed'
+  | 'unauthorized_party'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'issued_in_future'
+  | 'unknown_key'
+  | 'bad_signature'
+  | 'jwks_unavailable';
+
+/**
+ * Why a token was rejected. The code is returned to the client so it can tell,
+ * for example, an expired session (refresh and retry) from a forged token.
+ */
+export class TokenVerificationError extends Error {
+  constructor(public code: TokenErrorCode, message: string) {
+    super(message);
+  }
+}
+
+// JWKS per issuer, to avoid fetching on every request
+const jwksCache = new Map<string, { keys: JWKS; fetchedAt: number }>();
 const JWKS_CACHE_TTL = 3600000; // 1 hour
+// Minimum time between fetches triggered by an unknown kid, so tokens with
+// made-up kids cannot make us hammer Clerk
+const JWKS_REFETCH_INTERVAL = 30000; // 30 seconds
+// Tolerated difference between our clock and Clerk's when checking exp, nbf and iat
+const CLOCK_SKEW_SECONDS = 5;
+
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
 
 /**
  * Fetches the JWKS (JSON Web Key Set) from Clerk.
- * Uses caching to avoid excessive API calls.
+ * Uses caching to avoid excessive API calls; `force` bypasses the cache.
  */
-async function getJWKS(issuer: string): Promise<JWKS> {
+async function getJWKS(issuer: string, force = false): Promise<JWKS> {
   const now = Date.now();
-  
-  if (jwksCache && now - jwksCache.fetchedAt < JWKS_CACHE_TTL) {
-    return jwksCache.keys;
+  const cached = jwksCache.get(issuer);
+
+  if (cached && !force && now - cached.fetchedAt < JWKS_CACHE_TTL) {
+    return cached.keys;
   }
 
   const jwksUrl = `${issuer}/.well-known/jwks.json`;
   const response = await fetch(jwksUrl);
-  
+
   if (!response.ok) {
-    throw new Error('Failed to fetch JWKS');
+    throw new TokenVerificationError('jwks_unavailable', 'Failed to fetch JWKS');
   }
 
   const jwks = await response.json() as JWKS;
-  jwksCache = { keys: jwks, fetchedAt: now };
-  
+  jwksCache.set(issuer, { keys: jwks, fetchedAt: now });
+
   return jwks;
 }
 
+/**
+ * Finds the signing key for a kid. A kid we have not seen usually means Clerk
+ * has rotated its keys, so the JWKS is fetched again before giving up.
+ */
+async function findSigningKey(issuer: string, kid: string): Promise<JWK> {
+  const jwk = (await getJWKS(issuer)).keys.find((k) => k.kid === kid);
+  if (jwk) {
+    return jwk;
+  }
+
+  const cached = jwksCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt >= JWKS_REFETCH_INTERVAL) {
+    const refreshed = (await getJWKS(issuer, true)).keys.find((k) => k.kid === kid);
+    if (refreshed) {
+      return refreshed;
+    }
+  }
+
+  throw new TokenVerificationError('unknown_key', 'Signing key not found in JWKS');
+}
+
 /**
  * Converts a base64url string to an ArrayBuffer.
  */
@@ -84,6 +154,18 @@ function base64urlToArrayBuffer(base64url: string): ArrayBuffer {
   return bytes.buffer;
 }
 
+/**
+ * Decodes a base64url-encoded JSON segment of a JWT. Names in the payload may
+ * be any Unicode, so the bytes are decoded as UTF-8.
+ */
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64urlToArrayBuffer(segment)));
+  } catch {
+    throw new TokenVerificationError('malformed', 'Invalid JWT encoding');
+  }
+}
+
 /**
  * Imports an RSA public key from JWK format for verification.
  */
@@ -108,52 +190,58 @@ async function importPublicKey(jwk: JWK): Promise<CryptoKey> {
 
 /**
  * Verifies a Clerk JWT token using the JWKS endpoint.
- * This ensures the token was issued by Clerk and hasn't been tampered with.
+ * This ensures the token was issued by one of our Clerk instances for one of
+ * our apps, is currently valid and hasn't been tampered with.
  */
-async function verifyClerkToken(token: string): Promise<JWTPayload> {
+async function verifyClerkToken(token: string, env: ClerkBindings): Promise<JWTPayload> {
   const parts = token.split('.');
   if (parts.length !== 3) {
-    throw new Error('Invalid JWT format');
+    throw new TokenVerificationError('malformed', 'Invalid JWT format');
   }
 
   const [headerB64, payloadB64, signatureB64] = parts;
-  
-  // Decode header to get key ID
-  const header = JSON.parse(atob(headerB64.replace(/-/g, '+').replace(/_/g, '/')));
-  const kid = header.kid;
-  
-  if (!kid) {
-    throw new Error('JWT header missing kid');
-  }
-
-  // Decode payload to get issuer
-  const payload: JWTPayload = JSON.parse(
-    atob(payloadB64.replace(/-/g, '+').replace(/_/g, '/'))
-  );
-  
-  // Validate expiration
-  if (payload.exp && Date.now() >= payload.exp * 1000) {
-    throw new Error('Token has expired');
+  const header = decodeSegment<JWTHeader>(headerB64);
+  const payload = decodeSegment<JWTPayload>(payloadB64);
+
+  // Only RS256 matches the keys we import; refusing anything else rules out alg confusion
+  if (header.alg !== 'RS256') {
+    throw new TokenVerificationError('unsupported_algorithm', `Unsupported JWT algorithm ${header.alg}`);
+  }
+  if (!header.kid) {
+    throw new TokenVerificationError('malformed', 'JWT header missing kid');
+  }
+  if (!payload.sub) {
+    throw new TokenVerificationError('malformed', 'JWT payload missing sub');
+  }
+
+  // The issuer decides where we fetch keys from, so it must be one we trust
+  const issuer = payload.iss?.replace(/\/+$/, '');
+  if (!issuer || !parseList(env.CLERK_ISSUERS).includes(issuer)) {
+    throw new TokenVerificationError('issuer_not_allowed', 'Invalid token issuer');
   }
 
-  // Validate issuer - must be a Clerk issuer
-  if (!payload.iss || !payload.iss.includes('clerk')) {
-    throw new Error('Invalid token issuer');
+  const authorizedParties = parseList(env.CLERK_AUTHORIZED_PARTIES);
+  if (authorizedParties.length > 0 && (!payload.azp || !authorizedParties.includes(payload.azp))) {
+    throw new TokenVerificationError('unauthorized_party', 'Token was issued for another application');
   }
 
-  // Fetch JWKS and find the matching key
-  const jwks = await getJWKS(payload.iss);
-  const jwk = jwks.keys.find((k) => k.kid === kid);
-  
-  if (!jwk) {
-    throw new Error('Signing key not found in JWKS');
+  // Validate the time claims, allowing for some clock skew
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.exp !== 'number' || now - CLOCK_SKEW_SECONDS >= payload.exp) {
+    throw new TokenVerificationError('expired', 'Token has expired');
+  }
+  if (typeof payload.nbf === 'number' && now + CLOCK_SKEW_SECONDS < payload.nbf) {
+    throw new TokenVerificationError('not_yet_valid', 'Token is not valid yet');
+  }
+  if (typeof payload.iat === 'number' && now + CLOCK_SKEW_SECONDS < payload.iat) {
+    throw new TokenVerificationError('issued_in_future', 'Token was issued in the future');
   }
 
   // Import the public key and verify the signature
-  const publicKey = await importPublicKey(jwk);
+  const publicKey = await importPublicKey(await findSigningKey(issuer, header.kid));
   const signatureBytes = base64urlToArrayBuffer(signatureB64);
   const dataBytes = new TextEncoder().encode(`${headerB64}.${payloadB64}`);
-  
+
   const isValid = await crypto.subtle.verify(
     'RSASSA-PKCS1-v1_5',
     publicKey,
@@ -162,7 +250,7 @@ async function verifyClerkToken(token: string): Promise<JWTPayload> {
   );
 
   if (!isValid) {
-    throw new Error('Invalid token signature');
+    throw new TokenVerificationError('bad_signature', 'Invalid token signature');
   }
 
   return payload;
@@ -171,29 +259,38 @@ async function verifyClerkToken(token: string): Promise<JWTPayload> {
 export const clerkMiddleware = () => {
   return createMiddleware<{ Bindings: ClerkBindings }>(async (c, next) => {
     const authHeader = c.req.header('Authorization');
-    
+
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      throw new HTTPException(401, { message: 'Unauthorized: Missing or invalid authorization header' });
+      const code: TokenErrorCode = 'missing_token';
+      throw new HTTPException(401, {
+        res: c.json({ error: 'Unauthorized: Missing or invalid authorization header', code }, 401),
+      });
     }
 
     const token = authHeader.substring(7);
-    
+    let payload: JWTPayload;
+
     try {
       // Verify JWT using Clerk's JWKS endpoint
-      const payload = await verifyClerkToken(token);
-      
-      const user: ClerkUser = {
-        id: payload.sub,
-        email: payload.email || '',
-        firstName: payload.first_name,
-        lastName: payload.last_name,
-      };
-
-      c.set('user', user);
-      await next();
+      payload = await verifyClerkToken(token, c.env);
     } catch (error) {
-      console.error('Token verification error:', error);
-      throw new HTTPException(401, { message: 'Unauthorized: Invalid token' });
+      const code = error instanceof TokenVerificationError ? error.code : 'malformed';
+      const message = error instanceof TokenVerificationError ? error.message : 'Invalid token';
+      console.error(`Token verification error (${code}):`, error instanceof TokenVerificationError ? message : error);
+      throw new HTTPException(401, {
+        res: c.json({ error: `Unauthorized: ${message}`, code }, 401),
+      });
     }
+
+    const user: ClerkUser = {
+      id: payload.sub,
+      email: payload.email || '',
+      firstName: payload.first_name,
+      lastName: payload.last_name,
+      orgId: payload.org_id,
+    };
+
+    c.set('user', user);
+    await next();
   });
 };
@@ -0,0 +1,97 @@
+import { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { HTTPException } from 'hono/http-exception';
+import {
+  Plan,
+  PlanEntitlements,
+  PlanFeature,
+  SubscriptionStatus,
+  entitledSubscriptionStatuses,
+  planEntitlements,
+} from '../../../../packages/types/subscription';
+import { fromSqlTimestamp } from '../utils/timestamps';
+import { getOrganizationId } from './organizationMiddleware';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    plan: Plan;
+    entitlements: PlanEntitlements;
+  }
+}
+
+type EntitlementBindings = {
+  DB: D1Database;
+};
+
+/**
+ * Returns the plan an organization is currently paying for. Organizations
+ * without a subscription, or whose subscription has lapsed, are on the free plan.
+ */
+export async function getOrganizationPlan(db: D1Database, organizationId: string): Promise<Plan> {
+  const subscription = await db.prepare(
+    `SELECT plan, status, current_period_end FROM subscriptions
+     WHERE organization_id = ?
+     ORDER BY CASE WHEN status IN ('trialing', 'active') THEN 0 ELSE 1 END, current_period_end DESC
+     LIMIT 1`
+  ).bind(organizationId).first<{ plan: Plan; status: SubscriptionStatus; current_period_end: string | null }>();
+
+  if (!subscription || !entitledSubscriptionStatuses.includes(subscription.status)) {
+    return 'free';
+  }
+  // Covers a missed renewal webhook: a period that has ended is not paid for
+  if (subscription.current_period_end && fromSqlTimestamp(subscription.current_period_end) < new Date()) {
+    return 'free';
+  }
+  return subscription.plan in planEntitlements ? subscription.plan : 'free';
+}
+
+/**
+ * Resolves the active organization's plan and exposes it, together with the
+ * matching PlanEntitlements, on the context. Loads at most once per request.
+ */
+async function loadEntitlements(c: Context<{ Bindings: EntitlementBindings }>): Promise<PlanEntitlements> {
+  if (!c.get('entitlements')) {
+    const plan = await getOrganizationPlan(c.env.DB, getOrganizationId(c));
+    c.set('plan', plan);
+    c.set('entitlements', planEntitlements[plan]);
+  }
+  return c.get('entitlements');
+}
+
+/**
+ * Allows the request only if the organization's plan includes the feature.
+ * Must run behind requireOrganization.
+ */
+export const requireEntitlement = (feature: PlanFeature) => {
+  return createMiddleware<{ Bindings: EntitlementBindings }>(async (c, next) => {
+    const entitlements = await loadEntitlements(c);
+    if (!entitlements[feature]) {
+      throw new HTTPException(402, {
+        message: `Payment Required: the ${c.get('plan')} plan does not include ${feature}`,
+      });
+    }
+    await next();
+  });
+};
+
+/**
+ * Rejects adding another athlete once the organization is at its plan's
+ * athlete limit. Call before any write that makes an athlete a member.
+ */
+export async function assertAthleteCapacity(db: D1Database, organizationId: string): Promise<void> {
+  const plan = await getOrganizationPlan(db, organizationId);
+  const { maxAthletes } = planEntitlements[plan];
+  if (maxAthletes === null) return;
+
+  const athletes = await db.prepare(
+    `SELECT COUNT(*) AS count FROM organization_members
+     JOIN users ON users.id = organization_members.user_id
+     WHERE organization_members.organization_id = ? AND users.role = 'athlete'`
+  ).bind(organizationId).first<number>('count');
+
+  if (athletes !== null && athletes >= maxAthletes) {
+    throw new HTTPException(402, {
+      message: `Payment Required: the ${plan} plan allows at most ${maxAthletes} athletes`,
+    });
+  }
+}
@@ -0,0 +1,100 @@
+import { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { HTTPException } from 'hono/http-exception';
+import { OrganizationRole } from '../../../../packages/types/organization';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    organizationId: string | null;
+    orgRole: OrganizationRole | null;
+  }
+}
+
+type OrganizationBindings = {
+  DB: D1Database;
+};
+
+/**
+ * Resolves the organization the request acts on and the caller's role in it.
+ * Must run after clerkMiddleware. The organization comes from, in order:
+ * the Clerk `org_id` claim, the X-Organization-Id header, or the caller's
+ * only membership. Global admins may act on any organization they name.
+ * Requests made with an API key are pinned to the key's organization.
+ */
+export const organizationMiddleware = () => {
+  return createMiddleware<{ Bindings: OrganizationBindings }>(async (c, next) => {
+    const user = c.get('user');
+    const requested = c.req.header('X-Organization-Id');
+    const apiKey = c.get('apiKey');
+
+    // API keys belong to one organization and never act as a member role
+    if (apiKey) {
+      if (requested && requested !== apiKey.organizationId) {
+        throw new HTTPException(403, { message: 'Forbidden: this API key belongs to another organization' });
+      }
+      c.set('organizationId', apiKey.organizationId);
+      c.set('orgRole', null);
+      await next();
+      return;
+    }
+
+    let organizationId: string | null = null;
+    if (user.orgId) {
+      const org = await c.env.DB.prepare(
+        'SELECT id FROM organizations WHERE clerk_org_id = ?'
+      ).bind(user.orgId).first<{ id: string }>();
+      organizationId = org ? org.id : null;
+    } else if (requested) {
+      organizationId = requested;
+    }
+
+    const { results: memberships } = await c.env.DB.prepare(
+      'SELECT organization_id, role FROM organization_members WHERE user_id = ?'
+    ).bind(user.id).all<{ organization_id: string; role: OrganizationRole }>();
+
+    if (!organizationId && memberships.length === 1) {
+      organizationId = memberships[0].organization_id;
+    }
+
+    const membership = memberships.find((m) => m.organization_id === organizationId);
+
+    if (organizationId && !membership) {
+      const account = await c.env.DB.prepare(
+        'SELECT role FROM users WHERE id = ?'
+      ).bind(user.id).first<{ role: string }>();
+      const org = await c.env.DB.prepare(
+        'SELECT id FROM organizations WHERE id = ?'
+      ).bind(organizationId).first();
+
+      if (!org || account?.role !== 'admin') {
+        throw new HTTPException(403, { message: 'Forbidden: you are not a member of this organization' });
+      }
+    }
+
+    c.set('organizationId', organizationId);
+    c.set('orgRole', membership ? membership.role : null);
+    await next();
+  });
+};
+
+/**
+ * Rejects requests that could not be tied to an organization. Every tenant
+ * route runs behind this so queries can rely on c.get('organizationId').
+ */
+export const requireOrganization = () => {
+  return createMiddleware(async (c, next) => {
+    if (!c.get('organizationId')) {
+      throw new HTTPException(400, {
+        message: 'Bad Request: no organization selected; use an organization token or the X-Organization-Id header',
+      });
+    }
+    await next();
+  });
+};
+
+/**
+ * Returns the active organization ID. Only call behind requireOrganization.
+ */
+export function getOrganizationId(c: Context): string {
+  return c.get('organizationId')!;
+}
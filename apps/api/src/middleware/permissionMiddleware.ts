@@ -0,0 +1,201 @@
+import { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { HTTPException } from 'hono/http-exception';
+import { ApiKeyScope } from '../../../../packages/types/apiKey';
+import { OrganizationRole } from '../../../../packages/types/organization';
+import { Role, RolePermissions, rolePermissions } from '../../../../packages/types/roles';
+import { teamStaffRoles } from '../../../../packages/types/team';
+import { provisionUser } from '../utils/userSync';
+import { getOrganizationId } from './organizationMiddleware';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    role: Role;
+    permissions: RolePermissions;
+  }
+}
+
+type PermissionBindings = {
+  DB: D1Database;
+};
+
+type OwnerResolver = (c: Context<{ Bindings: PermissionBindings }>) => Promise<string | null>;
+
+/**
+ * Rejects the request with a 403 so every route denies access the same way.
+ */
+function forbidden(reason: string): never {
+  throw new HTTPException(403, { message: `Forbidden: ${reason}` });
+}
+
+/**
+ * Whether the caller administers the active organization, either as a global
+ * admin or as an admin of that organization.
+ */
+export function isAdmin(c: Context): boolean {
+  return c.get('role') === 'admin' || c.get('orgRole') === 'org_admin';
+}
+
+/**
+ * The permissions a role grants within an organization: organization admins
+ * get admin permissions there, and unknown roles are treated as viewers.
+ */
+function permissionsForRole(role: Role, orgRole: OrganizationRole | null): RolePermissions {
+  return rolePermissions[orgRole === 'org_admin' ? 'admin' : role];
+}
+
+function toRole(value: string | undefined): Role {
+  return value !== undefined && value in rolePermissions ? (value as Role) : 'viewer';
+}
+
+/**
+ * The permissions an API key grants: its scopes, less any its creator no
+ * longer holds, so demoting the creator also narrows their keys.
+ */
+function permissionsForScopes(scopes: ApiKeyScope[], creator: RolePermissions): RolePermissions {
+  const permissions = { ...rolePermissions.viewer };
+  for (const permission of Object.keys(permissions) as ApiKeyScope[]) {
+    permissions[permission] = scopes.includes(permission) && creator[permission];
+  }
+  return permissions;
+}
+
+/**
+ * Looks up the caller's role in the users table and exposes it, together with
+ * the matching RolePermissions, on the context. Must run after clerkMiddleware
+ * and organizationMiddleware. Callers the Clerk webhook has not synced yet are
+ * provisioned from their token when it carries an email, and treated as
+ * viewers otherwise; organization admins get admin permissions within their
+ * organization. API key requests get the key's scopes as their permissions,
+ * capped at what the key's creator may currently do.
+ */
+export const permissionMiddleware = () => {
+  return createMiddleware<{ Bindings: PermissionBindings }>(async (c, next) => {
+    const user = c.get('user');
+    const apiKey = c.get('apiKey');
+
+    // A key acts as its creator but only with its scopes, and never as an admin
+    if (apiKey) {
+      c.set('role', 'viewer');
+      const creator = permissionsForRole(toRole(apiKey.creatorRole), apiKey.creatorOrgRole);
+      c.set('permissions', permissionsForScopes(apiKey.scopes, creator));
+      await next();
+      return;
+    }
+
+    const findRole = () =>
+      c.env.DB.prepare('SELECT role FROM users WHERE id = ?').bind(user.id).first<{ role: string }>();
+
+    let row = await findRole();
+
+    if (!row && user.email) {
+      await provisionUser(c.env.DB, {
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName ?? '',
+        lastName: user.lastName ?? '',
+      });
+      row = await findRole();
+    }
+
+    const role = toRole(row?.role);
+
+    c.set('role', role);
+    c.set('permissions', permissionsForRole(role, c.get('orgRole')));
+    await next();
+  });
+};
+
+/**
+ * Allows the request only for global admins, for actions that span every
+ * organization on the deployment.
+ */
+export const requireGlobalAdmin = () => {
+  return createMiddleware(async (c, next) => {
+    if (c.get('role') !== 'admin') {
+      forbidden('only a global admin may perform this action');
+    }
+    await next();
+  });
+};
+
+/**
+ * Allows the request only if the caller's role grants the given permission.
+ */
+export const requirePermission = (permission: keyof RolePermissions) => {
+  return createMiddleware(async (c, next) => {
+    if (!c.get('permissions')[permission]) {
+      forbidden(`missing permission ${permission}`);
+    }
+    await next();
+  });
+};
+
+/**
+ * Allows the request only if the caller owns the targeted resource or is an admin.
+ * Resolvers must only find resources in the active organization.
+ * The resolver returns the owning user ID, or null when the resource does not exist.
+ */
+export const requireOwnership = (resolveOwnerId: OwnerResolver) => {
+  return createMiddleware<{ Bindings: PermissionBindings }>(async (c, next) => {
+    const ownerId = await resolveOwnerId(c);
+    if (ownerId === null) {
+      throw new HTTPException(404, { message: 'Not Found: resource does not exist' });
+    }
+    if (ownerId !== c.get('user').id && !isAdmin(c)) {
+      forbidden('only the owner or an admin may perform this action');
+    }
+    await next();
+  });
+};
+
+/**
+ * Returns the IDs of the athletes the given user coaches on any team in the organization.
+ */
+export async function getRosterAthleteIds(
+  db: D1Database,
+  organizationId: string,
+  coachId: string
+): Promise<Set<string>> {
+  const { results } = await db.prepare(
+    `SELECT DISTINCT athlete.user_id FROM team_members staff
+     JOIN teams ON teams.id = staff.team_id AND teams.organization_id = ?
+     JOIN team_members athlete ON athlete.team_id = staff.team_id AND athlete.role = 'athlete'
+     WHERE staff.user_id = ? AND staff.role IN (${teamStaffRoles.map(() => '?').join(', ')})`
+  ).bind(organizationId, coachId, ...teamStaffRoles).all<{ user_id: string }>();
+
+  return new Set(results.map((row) => row.user_id));
+}
+
+/**
+ * Allows the request if the `:id` route param is the caller themselves, if the
+ * caller is an admin, or if the caller coaches that athlete on one of their teams.
+ * Users outside the active organization are reported as not found.
+ */
+export const requireRosterAccess = () => {
+  return createMiddleware<{ Bindings: PermissionBindings }>(async (c, next) => {
+    const targetId = c.req.param('id');
+    const user = c.get('user');
+    const organizationId = getOrganizationId(c);
+
+    if (targetId === user.id) {
+      await next();
+      return;
+    }
+
+    const member = await c.env.DB.prepare(
+      'SELECT user_id FROM organization_members WHERE organization_id = ? AND user_id = ?'
+    ).bind(organizationId, targetId).first();
+    if (!member) {
+      throw new HTTPException(404, { message: 'Not Found: user does not exist' });
+    }
+
+    if (!isAdmin(c)) {
+      const roster = await getRosterAthleteIds(c.env.DB, organizationId, user.id);
+      if (!roster.has(targetId!)) {
+        forbidden('athlete is not on one of your teams');
+      }
+    }
+    await next();
+  });
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { Schema, validate } from '../../../../packages/types/validation';
+
+interface ProfileInput {
+  name: string;
+  email?: string;
+  bio?: string | null;
+  age?: number;
+  level: 'junior' | 'senior';
+  active?: boolean;
+  tags?: string[];
+  address?: { city: string };
+}
+
+const profileSchema: Schema<ProfileInput> = {
+  name: { type: 'string', maxLength: 10 },
+  email: { type: 'string', format: 'email', optional: true },
+  bio: { type: 'string', optional: true, nullable: true },
+  age: { type: 'number', integer: true, min: 10, max: 99, optional: true },
+  level: { type: 'enum', values: ['junior', 'senior'] },
+  active: { type: 'boolean', optional: true },
+  tags: { type: 'array', items: { type: 'string', maxLength: 5 }, maxItems: 2, optional: true },
+  address: { type: 'object', schema: { city: { type: 'string' } }, optional: true },
+};
+
+function errorsFor(input: unknown) {
+  const result = validate(profileSchema, input);
+  return result.ok ? [] : result.errors;
+}
+
+describe('validate', () => {
+  it('trims strings and drops fields the schema does not name', () => {
+    const result = validate(profileSchema, { name: '  Sam ', level: 'junior', role: 'admin' });
+
+    expect(result).toEqual({ ok: true, value: { name: 'Sam', level: 'junior' } });
+  });
+
+  it('rejects a body that is not an object', () => {
+    expect(errorsFor([])).toEqual([{ field: '', message: 'must be a JSON object' }]);
+    expect(errorsFor(null)).toEqual([{ field: '', message: 'must be a JSON object' }]);
+  });
+
+  it('reports every invalid field, not just the first', () => {
+    expect(errorsFor({ name: '   ', level: 'expert', age: 12.5 })).toEqual([
+      { field: 'name', message: 'is required' },
+      { field: 'age', message: 'must be a whole number' },
+      { field: 'level', message: 'must be one of junior, senior' },
+    ]);
+  });
+
+  it('checks string length and format', () => {
+    expect(errorsFor({ name: 'Alexandrina Smith', level: 'junior', email: 'not-an-email' })).toEqual([
+      { field: 'name', message: 'must be at most 10 characters' },
+      { field: 'email', message: 'must be an email address' },
+    ]);
+  });
+
+  it('checks number bounds and types', () => {
+    expect(errorsFor({ name: 'Sam', level: 'junior', age: 5 })).toEqual([{ field: 'age', message: 'must be at least 10' }]);
+    expect(errorsFor({ name: 'Sam', level: 'junior', age: 100 })).toEqual([{ field: 'age', message: 'must be at most 99' }]);
+    expect(errorsFor({ name: 'Sam', level: 'junior', age: '20' })).toEqual([{ field: 'age', message: 'must be a number' }]);
+  });
+
+  it('keeps null only for nullable fields, and blanks a nullable string to null', () => {
+    expect(validate(profileSchema, { name: 'Sam', level: 'junior', bio: '  ' })).toEqual({
+      ok: true,
+      value: { name: 'Sam', level: 'junior', bio: null },
+    });
+    expect(errorsFor({ name: 'Sam', level: 'junior', email: null })).toEqual([{ field: 'email', message: 'cannot be null' }]);
+    expect(errorsFor({ name: null, level: 'junior' })).toEqual([{ field: 'name', message: 'is required' }]);
+  });
+
+  it('checks booleans strictly', () => {
+    expect(errorsFor({ name: 'Sam', level: 'junior', active: 'true' })).toEqual([
+      { field: 'active', message: 'must be true or false' },
+    ]);
+  });
+
+  it('reports array items and nested fields by path', () => {
+    expect(errorsFor({ name: 'Sam', level: 'junior', tags: ['fast', 'powerful'], address: { city: 3 } })).toEqual([
+      { field: 'tags[1]', message: 'must be at most 5 characters' },
+      { field: 'address.city', message: 'must be a string' },
+    ]);
+    expect(errorsFor({ name: 'Sam', level: 'junior', tags: ['a', 'b', 'c'] })).toEqual([
+      { field: 'tags', message: 'must have at most 2 items' },
+    ]);
+  });
+
+  it('trims and keeps valid nested values', () => {
+    const result = validate(profileSchema, { name: 'Sam', level: 'senior', tags: [' fast '], address: { city: ' Oslo ', zip: '0150' } });
+
+    expect(result).toEqual({ ok: true, value: { name: 'Sam', level: 'senior', tags: ['fast'], address: { city: 'Oslo' } } });
+  });
+});
@@ -0,0 +1,42 @@
+import { Env } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { validator } from 'hono/validator';
+import { Schema, validate } from '../../../../packages/types/validation';
+import { ApiError } from '../utils/errors';
+
+/**
+ * Validates the JSON body against a schema from packages/types. Routes read
+ * the checked, trimmed body with c.req.valid('json'); an invalid body never
+ * reaches them and gets a 400 listing every invalid field.
+ */
+export const validateBody = <T>(schema: Schema<T>) => {
+  return validator('json', (value) => {
+    const result = validate(schema, value);
+    if (!result.ok) {
+      throw new ApiError(400, 'Request body is invalid', { code: 'validation_failed', details: result.errors });
+    }
+    return result.value;
+  });
+};
+
+type QueryParser<Q, T> = (query: Q) => { ok: true; value: T } | { ok: false; error: string };
+
+/**
+ * Validates the query string with a parser such as parseJobSearch. Routes read
+ * the parsed value with c.req.valid('query'), and the parser's parameter type
+ * declares the query the route accepts, which is what API clients are typed
+ * from.
+ */
+export const validateQuery = <Q, T extends object>(parse: QueryParser<Q, T>) => {
+  // Typed by hand rather than with validator(), which would infer the query's
+  // input type from the parsed output instead of the parser's input
+  return createMiddleware<Env, string, { in: { query: Q }; out: { query: T } }>(async (c, next) => {
+    // One value per parameter, as c.req.query() has always given the parsers
+    const result = parse(c.req.query() as Q);
+    if (!result.ok) {
+      throw new ApiError(400, result.error, { code: 'validation_failed' });
+    }
+    c.req.addValidatedData('query', result.value);
+    await next();
+  });
+};
@@ -0,0 +1,145 @@
+import { ApiErrorBody } from '../../../../packages/types/apiError';
+import { AuditFieldChange, AuditLogEntry } from '../../../../packages/types/auditLog';
+import { BillingTotal } from '../../../../packages/types/billing';
+import {
+  RecommendationRule,
+  RuleCondition,
+  athleteRuleMetrics,
+  categoryRuleMetrics,
+  ruleOperators,
+  rulePriorities,
+} from '../../../../packages/types/recommendationRule';
+import {
+  BulkScoreResult,
+  BulkScoreRow,
+  BulkScoreRowError,
+  ScoreHistory,
+  ScoreHistoryPoint,
+  ScoreHistorySeries,
+  scoreBuckets,
+} from '../../../../packages/types/score';
+import { FieldError } from '../../../../packages/types/validation';
+import { JsonSchema, arrayOf, objectSchema, ref } from './jsonSchema';
+
+const date: JsonSchema = { type: 'string', format: 'date-time' };
+
+/**
+ * Shapes shared by several operations, served as components/schemas. Request
+ * bodies that routes validate with a packages/types schema are generated from
+ * that schema instead; these cover the rest, each checked against its type.
+ */
+export const schemas: Record<string, JsonSchema> = {
+  ApiError: objectSchema<ApiErrorBody>({
+    error: { type: 'string', description: 'A message for people' },
+    code: { type: 'string', description: 'Stable code to branch on, e.g. validation_failed, not_found, conflict' },
+    details: { ...arrayOf(ref('FieldError')), description: 'The fields at fault, when the error concerns particular fields' },
+  }, ['error', 'code']),
+
+  FieldError: objectSchema<FieldError>({
+    field: { type: 'string' },
+    message: { type: 'string' },
+  }, ['field', 'message']),
+
+  Message: {
+    type: 'object',
+    properties: { message: { type: 'string' } },
+    required: ['message'],
+  },
+
+  ScoreSummary: {
+    type: 'object',
+    description: "An athlete's latest score in one category and how it moved since the one before",
+    properties: {
+      category: { type: 'string' },
+      value: { type: 'number' },
+      trend: { type: 'string', enum: ['up', 'down', 'stable'] },
+      lastUpdated: date,
+    },
+    required: ['category', 'value', 'trend', 'lastUpdated'],
+  },
+
+  ScoreHistory: objectSchema<ScoreHistory>({
+    bucket: { type: 'string', enum: scoreBuckets },
+    from: { type: ['string', 'null'] },
+    to: { type: ['string', 'null'] },
+    categories: arrayOf(objectSchema<ScoreHistorySeries>({
+      category: { type: 'string' },
+      points: arrayOf(objectSchema<ScoreHistoryPoint>({
+        period: { type: 'string', format: 'date', description: 'First day of the bucket' },
+        average: { type: 'number' },
+        min: { type: 'number' },
+        max: { type: 'number' },
+        count: { type: 'integer' },
+      }, ['period', 'average', 'min', 'max', 'count'])),
+    }, ['category', 'points'])),
+  }, ['bucket', 'from', 'to', 'categories']),
+
+  BulkScoreRow: objectSchema<BulkScoreRow>({
+    athlete: { type: 'string', description: "The athlete's user ID or email" },
+    category: { type: 'string', maxLength: 100 },
+    score: { type: 'number', minimum: 0, maximum: 100 },
+    notes: { type: 'string', maxLength: 2000 },
+    recordedAt: date,
+  }, ['athlete', 'category', 'score']),
+
+  BulkScoreResult: objectSchema<BulkScoreResult>({
+    imported: { type: 'integer' },
+    failed: { type: 'integer' },
+    errors: arrayOf(objectSchema<BulkScoreRowError>({
+      row: { type: 'integer', description: '1-based, as in a spreadsheet' },
+      athlete: { type: 'string' },
+      error: { type: 'string' },
+    }, ['row', 'error'])),
+  }, ['imported', 'failed', 'errors']),
+
+  BillingTotal: objectSchema<BillingTotal>({
+    currency: { type: 'string' },
+    charged: { type: 'integer', description: "In the currency's smallest unit" },
+    refunded: { type: 'integer' },
+    net: { type: 'integer' },
+  }, ['currency', 'charged', 'refunded', 'net']),
+
+  RuleCondition: objectSchema<RuleCondition>({
+    metric: { type: 'string', enum: [...athleteRuleMetrics, ...categoryRuleMetrics] },
+    operator: { type: 'string', enum: ruleOperators },
+    value: { type: 'number' },
+  }, ['metric', 'operator', 'value']),
+
+  RecommendationRule: objectSchema<RecommendationRule>({
+    id: { type: 'string' },
+    name: { type: 'string' },
+    sport: { type: ['string', 'null'] },
+    categoryFilter: { type: ['string', 'null'] },
+    conditions: arrayOf(ref('RuleCondition')),
+    priority: { type: 'string', enum: rulePriorities },
+    category: { type: 'string', description: 'Template; {{category}} and {{<metric>}} are filled in' },
+    title: { type: 'string', description: 'Template, as category' },
+    description: { type: 'string', description: 'Template, as category' },
+    enabled: { type: 'boolean' },
+  }, ['id', 'name', 'conditions', 'priority', 'category', 'title', 'description', 'enabled']),
+
+  AuditLogEntry: objectSchema<AuditLogEntry>({
+    id: { type: 'integer' },
+    organizationId: { type: ['string', 'null'] },
+    actorId: { type: ['string', 'null'], description: 'The user who made the change' },
+    apiKeyId: { type: ['string', 'null'], description: 'The API key the change was made with, if any' },
+    action: { type: 'string', description: 'e.g. user.role_change, or "<METHOD> <route>" for writes no route described' },
+    entityType: { type: ['string', 'null'] },
+    entityId: { type: ['string', 'null'] },
+    changes: {
+      oneOf: [
+        {
+          type: 'object',
+          description: 'Each changed field; from is null for a created entity, to for a deleted one',
+          additionalProperties: { ...objectSchema<AuditFieldChange>({ from: {}, to: {} }), required: ['from', 'to'] },
+        },
+        { type: 'null' },
+      ],
+    },
+    method: { type: 'string' },
+    path: { type: 'string' },
+    status: { type: 'integer' },
+    ipAddress: { type: ['string', 'null'] },
+    createdAt: date,
+  }, ['id', 'organizationId', 'actorId', 'apiKeyId', 'action', 'entityType', 'entityId', 'changes', 'method', 'path', 'status', 'ipAddress', 'createdAt']),
+};
@@ -0,0 +1,187 @@
+/**
+ * The interactive API reference served at /docs. It renders /openapi.json in
+ * the browser and can send requests with a bearer token the reader pastes
+ * in, so it needs nothing beyond this page and the document.
+ */
+export const docsPage = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Apex Athletics API</title>
+<style>
+  body { margin: 0; font: 15px/1.5 system-ui, sans-serif; color: #1f2933; display: flex; }
+  nav { width: 260px; height: 100vh; overflow-y: auto; position: sticky; top: 0; background: #f5f7fa; padding: 16px; box-sizing: border-box; flex-shrink: 0; }
+  nav h2 { font-size: 13px; text-transform: uppercase; color: #616e7c; margin: 16px 0 4px; }
+  nav a { display: block; color: inherit; text-decoration: none; font-size: 13px; padding: 2px 0; }
+  main { flex: 1; padding: 24px 40px; max-width: 960px; }
+  .auth { display: flex; gap: 8px; margin-bottom: 24px; }
+  .auth input { flex: 1; }
+  section { border-top: 1px solid #e4e7eb; padding: 16px 0; }
+  .method { display: inline-block; width: 64px; font-weight: 600; font-family: monospace; }
+  .get { color: #2680c2; } .post { color: #3f9142; } .patch { color: #cb6e17; } .delete { color: #ba2525; }
+  code, pre, textarea, input { font-family: ui-monospace, monospace; font-size: 13px; }
+  pre { background: #f5f7fa; padding: 8px; overflow-x: auto; }
+  table { border-collapse: collapse; margin: 8px 0; }
+  td, th { text-align: left; padding: 2px 12px 2px 0; vertical-align: top; }
+  details { margin-top: 8px; }
+  textarea { width: 100%; min-height: 120px; box-sizing: border-box; }
+  input { padding: 4px; }
+</style>
+</head>
+<body>
+<nav id="nav"></nav>
+<main>
+  <h1>Apex Athletics API</h1>
+  <p id="intro"></p>
+  <p>The machine-readable description is at <a href="/openapi.json">/openapi.json</a>.</p>
+  <div class="auth">
+    <input id="token" type="password" placeholder="Bearer token: a Clerk session token or an API key" autocomplete="off">
+    <input id="organization" placeholder="X-Organization-Id (optional)">
+  </div>
+  <div id="operations"></div>
+</main>
+<script>
+(function () {
+  var tokenInput = document.getElementById('token');
+  var organizationInput = document.getElementById('organization');
+  tokenInput.value = sessionStorage.getItem('apiToken') || '';
+  organizationInput.value = sessionStorage.getItem('apiOrganization') || '';
+  tokenInput.addEventListener('change', function () { sessionStorage.setItem('apiToken', tokenInput.value); });
+  organizationInput.addEventListener('change', function () { sessionStorage.setItem('apiOrganization', organizationInput.value); });
+
+  function el(tag, attributes, children) {
+    var node = document.createElement(tag);
+    Object.keys(attributes || {}).forEach(function (key) { node.setAttribute(key, attributes[key]); });
+    (children || []).forEach(function (child) {
+      node.appendChild(typeof child === 'string' ? document.createTextNode(child) : child);
+    });
+    return node;
+  }
+
+  function resolve(spec, schema) {
+    if (schema && schema.$ref) return resolve(spec, spec.components.schemas[schema.$ref.split('/').pop()]);
+    return schema;
+  }
+
+  // A starting body for the request editor, built from the schema
+  function example(spec, schema, depth) {
+    schema = resolve(spec, schema) || {};
+    if (depth > 3) return null;
+    if (schema.enum) return schema.enum[0];
+    var type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+    if (type === 'object') {
+      var value = {};
+      Object.keys(schema.properties || {}).forEach(function (key) {
+        value[key] = example(spec, schema.properties[key], depth + 1);
+      });
+      return value;
+    }
+    if (type === 'array') return [example(spec, schema.items, depth + 1)];
+    if (type === 'number' || type === 'integer') return schema.minimum || 0;
+    if (type === 'boolean') return false;
+    if (schema.format === 'date-time') return new Date().toISOString();
+    return '';
+  }
+
+  function renderOperation(spec, path, method, operation) {
+    var id = method + path.replace(/[^a-zA-Z0-9]+/g, '-');
+    var section = el('section', { id: id }, [
+      el('h3', {}, [el('span', { class: 'method ' + method }, [method.toUpperCase()]), el('code', {}, [path])]),
+      el('p', {}, [operation.summary + (operation.description ? '. ' + operation.description : '')]),
+    ]);
+
+    var inputs = {};
+    if (operation.parameters.length > 0) {
+      var rows = operation.parameters.map(function (parameter) {
+        var input = el('input', { placeholder: parameter.name });
+        inputs[parameter.in + ':' + parameter.name] = input;
+        return el('tr', {}, [
+          el('td', {}, [el('code', {}, [parameter.name])]),
+          el('td', {}, [parameter.in + (parameter.required ? ', required' : '')]),
+          el('td', {}, [parameter.description || '']),
+          el('td', {}, [input]),
+        ]);
+      });
+      section.appendChild(el('table', {}, rows));
+    }
+
+    var bodyInput;
+    if (operation.requestBody) {
+      var schema = operation.requestBody.content['application/json'].schema;
+      bodyInput = el('textarea', {}, [JSON.stringify(example(spec, schema, 0), null, 2)]);
+      section.appendChild(el('details', {}, [
+        el('summary', {}, ['Request body schema']),
+        el('pre', {}, [JSON.stringify(resolve(spec, schema), null, 2)]),
+      ]));
+      section.appendChild(bodyInput);
+    }
+
+    var responses = Object.keys(operation.responses).map(function (status) {
+      return el('tr', {}, [el('td', {}, [status]), el('td', {}, [operation.responses[status].description])]);
+    });
+    section.appendChild(el('details', {}, [el('summary', {}, ['Responses']), el('table', {}, responses)]));
+
+    var output = el('pre', { hidden: '' });
+    var send = el('button', {}, ['Send request']);
+    send.addEventListener('click', function () {
+      var url = path.replace(/{(\\w+)}/g, function (_, name) {
+        return encodeURIComponent(inputs['path:' + name].value);
+      });
+      var query = new URLSearchParams();
+      var headers = { 'Content-Type': 'application/json' };
+      operation.parameters.forEach(function (parameter) {
+        var value = inputs[parameter.in + ':' + parameter.name].value;
+        if (!value) return;
+        if (parameter.in === 'query') query.set(parameter.name, value);
+        if (parameter.in === 'header') headers[parameter.name] = value;
+      });
+      if (tokenInput.value) headers.Authorization = 'Bearer ' + tokenInput.value;
+      if (organizationInput.value && !headers['X-Organization-Id']) headers['X-Organization-Id'] = organizationInput.value;
+
+      output.hidden = false;
+      output.textContent = 'Sending...';
+      fetch(url + (query.toString() ? '?' + query : ''), {
+        method: method.toUpperCase(),
+        headers: headers,
+        body: bodyInput ? bodyInput.value : undefined,
+      }).then(function (response) {
+        return response.text().then(function (text) {
+          try { text = JSON.stringify(JSON.parse(text), null, 2); } catch (error) { /* not JSON */ }
+          output.textContent = response.status + ' ' + response.statusText + '\\n\\n' + text;
+        });
+      }).catch(function (error) {
+        output.textContent = String(error);
+      });
+    });
+    section.appendChild(el('p', {}, [send]));
+    section.appendChild(output);
+    return { id: id, section: section, summary: operation.summary };
+  }
+
+  fetch('/openapi.json').then(function (response) { return response.json(); }).then(function (spec) {
+    document.getElementById('intro').textContent = spec.info.description;
+    var byTag = {};
+    Object.keys(spec.paths).forEach(function (path) {
+      Object.keys(spec.paths[path]).forEach(function (method) {
+        var operation = spec.paths[path][method];
+        (byTag[operation.tags[0]] = byTag[operation.tags[0]] || []).push(renderOperation(spec, path, method, operation));
+      });
+    });
+
+    var nav = document.getElementById('nav');
+    var container = document.getElementById('operations');
+    Object.keys(byTag).forEach(function (tag) {
+      nav.appendChild(el('h2', {}, [tag]));
+      container.appendChild(el('h2', {}, [tag]));
+      byTag[tag].forEach(function (entry) {
+        nav.appendChild(el('a', { href: '#' + entry.id }, [entry.summary]));
+        container.appendChild(entry.section);
+      });
+    });
+  });
+})();
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { app } from '../app';
+import { openApiDocument } from './document';
+
+// Served next to the API rather than as part of it
+const UNDOCUMENTED = ['GET /health', 'GET /openapi.json', 'GET /docs'];
+
+type Paths = Record<string, Record<string, { responses: Record<string, unknown> }>>;
+
+const document = openApiDocument() as { paths: Paths; components: { schemas: Record<string, unknown> } };
+
+function servedOperations() {
+  const operations = app.routes
+    // app.use registers middleware for every method, and wildcard paths are
+    // middleware too; neither is an operation
+    .filter((route) => route.method !== 'ALL' && !route.path.endsWith('*'))
+    .map((route) => `${route.method} ${route.path}`);
+  return [...new Set(operations)].filter((operation) => !UNDOCUMENTED.includes(operation)).sort();
+}
+
+function documentedOperations() {
+  return Object.entries(document.paths)
+    .flatMap(([path, methods]) =>
+      Object.keys(methods).map((method) => `${method.toUpperCase()} ${path.replace(/\{(\w+)\}/g, ':$1')}`)
+    )
+    .sort();
+}
+
+function refs(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(refs);
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, child]) => (key === '$ref' ? [String(child)] : refs(child)));
+  }
+  return [];
+}
+
+describe('openApiDocument', () => {
+  it('documents exactly the operations the app serves', () => {
+    expect(documentedOperations()).toEqual(servedOperations());
+  });
+
+  it('gives every operation a successful response', () => {
+    for (const [path, methods] of Object.entries(document.paths)) {
+      for (const [method, operation] of Object.entries(methods)) {
+        const statuses = Object.keys(operation.responses).filter((status) => status.startsWith('2'));
+        expect(statuses, `${method.toUpperCase()} ${path}`).not.toHaveLength(0);
+      }
+    }
+  });
+
+  it('only refers to schemas it defines', () => {
+    const defined = Object.keys(document.components.schemas).map((name) => `#/components/schemas/${name}`);
+    for (const ref of new Set(refs(document))) {
+      expect(defined).toContain(ref);
+    }
+  });
+});
@@ -0,0 +1,145 @@
+import { schemas } from './components';
+import { JsonSchema, fromValidationSchema, ref } from './jsonSchema';
+import { Authentication, OperationDoc, ResponseDoc, operations } from './operations';
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  tags: string[];
+  summary: string;
+  description?: string;
+  parameters: Parameter[];
+  requestBody?: { required: true; content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { description: string; content?: Record<string, { schema: JsonSchema }> }>;
+  security: Record<string, string[]>[];
+}
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'The request is invalid',
+  401: 'Missing or invalid credentials',
+  402: "The organization's plan does not allow this",
+  403: 'The caller may not do this',
+  404: 'Not found',
+  409: 'Conflicts with existing data',
+  500: 'Something went wrong on our side',
+};
+
+// Headers a webhook sender signs its deliveries with
+const SIGNATURE_HEADERS: Record<Exclude<Authentication, 'bearer'>, string[]> = {
+  stripe: ['Stripe-Signature'],
+  svix: ['svix-id', 'svix-timestamp', 'svix-signature'],
+};
+
+function toResponse({ description, contentType = 'application/json', schema }: ResponseDoc) {
+  return schema ? { description, content: { [contentType]: { schema } } } : { description };
+}
+
+function toOperation(path: string, doc: OperationDoc): Operation {
+  const authentication = doc.authentication ?? 'bearer';
+  const pathParams = [...path.matchAll(/:(\w+)/g)].map(([, name]) => name);
+  const parameters: Parameter[] = [];
+
+  for (const name of pathParams) {
+    parameters.push({ name, in: 'path', required: true, description: doc.params?.[name], schema: { type: 'string' } });
+  }
+  for (const [name, description] of Object.entries(doc.query ?? {})) {
+    parameters.push({ name, in: 'query', required: false, description, schema: { type: 'string' } });
+  }
+  if (authentication === 'bearer') {
+    parameters.push({
+      name: 'X-Organization-Id',
+      in: 'header',
+      required: false,
+      description: 'The organization to act in, for users who belong to several',
+      schema: { type: 'string' },
+    });
+  } else {
+    for (const name of SIGNATURE_HEADERS[authentication]) {
+      parameters.push({ name, in: 'header', required: true, schema: { type: 'string' } });
+    }
+  }
+
+  const body = doc.schema ? fromValidationSchema(doc.schema) : doc.body;
+  const requestBody = body && {
+    required: true as const,
+    content: {
+      'application/json': { schema: body },
+      ...Object.fromEntries(Object.entries(doc.alternativeBodies ?? {}).map(([type, schema]) => [type, { schema }])),
+    },
+  };
+
+  // Every operation can fail in these ways; the shared error body describes them all
+  const errors = new Set([authentication === 'bearer' ? 403 : 400, 401, 500]);
+  if (body || doc.query) errors.add(400);
+  if (pathParams.length > 0) errors.add(404);
+  for (const status of Object.keys(doc.errors ?? {})) errors.add(Number(status));
+
+  const responses: Operation['responses'] = {};
+  for (const [status, response] of Object.entries(doc.responses)) {
+    responses[status] = toResponse(response);
+  }
+  for (const status of [...errors].sort()) {
+    responses[status] ??= toResponse({
+      description: doc.errors?.[status] ?? ERROR_DESCRIPTIONS[status],
+      schema: ref('ApiError'),
+    });
+  }
+
+  return {
+    tags: [doc.tag],
+    summary: doc.summary,
+    description: doc.description,
+    parameters,
+    requestBody,
+    responses,
+    security: authentication === 'bearer' ? [{ bearerAuth: [] }] : [],
+  };
+}
+
+let document: Record<string, unknown> | undefined;
+
+/**
+ * The OpenAPI 3.1 description of the API, served at /openapi.json. Built once
+ * per isolate from the operation catalogue, which the type check keeps in step
+ * with the routes.
+ */
+export function openApiDocument(): Record<string, unknown> {
+  if (document) return document;
+
+  const paths: Record<string, Record<string, Operation>> = {};
+  for (const [path, methods] of Object.entries(operations) as [string, Record<string, OperationDoc>][]) {
+    const openApiPath = path.replace(/:(\w+)/g, '{$1}');
+    for (const [method, doc] of Object.entries(methods)) {
+      (paths[openApiPath] ??= {})[method.slice(1)] = toOperation(path, doc);
+    }
+  }
+
+  document = {
+    openapi: '3.1.0',
+    info: {
+      title: 'Apex Athletics API',
+      version: '1.0.0',
+      description:
+        'Authenticate with a Clerk session token or an organization API key as a bearer token. ' +
+        'Every error has the body described by ApiError.',
+    },
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'A Clerk session token, or an API key (apx_...) created by an organization admin',
+        },
+      },
+    },
+  };
+  return document;
+}
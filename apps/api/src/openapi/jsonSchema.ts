@@ -0,0 +1,106 @@
+import { FieldRule, Schema } from '../../../../packages/types/validation';
+
+// The subset of JSON Schema (draft 2020-12, as OpenAPI 3.1 uses) the API documents itself with
+export interface JsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null' | ('string' | 'number' | 'integer' | 'boolean' | 'null')[];
+  description?: string;
+  format?: string;
+  enum?: readonly (string | null)[];
+  minimum?: number;
+  maximum?: number;
+  maxLength?: number;
+  minLength?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  oneOf?: JsonSchema[];
+  $ref?: string;
+}
+
+// One property schema for every field of T, so a documented shape cannot fall behind its type
+export type Properties<T> = { [K in keyof Required<T>]: JsonSchema };
+
+// Keys of T that are not optional
+type RequiredKeys<T> = { [K in keyof T]-?: undefined extends T[K] ? never : K }[keyof T];
+
+const FORMATS = { email: 'email', url: 'uri', date: 'date-time' } as const;
+
+function fromRule(rule: FieldRule): JsonSchema {
+  const schema: JsonSchema = {};
+
+  switch (rule.type) {
+    case 'string':
+      schema.type = 'string';
+      if (!rule.optional) schema.minLength = 1;
+      if (rule.maxLength !== undefined) schema.maxLength = rule.maxLength;
+      if (rule.format) schema.format = FORMATS[rule.format];
+      break;
+    case 'number':
+      schema.type = rule.integer ? 'integer' : 'number';
+      if (rule.min !== undefined) schema.minimum = rule.min;
+      if (rule.max !== undefined) schema.maximum = rule.max;
+      break;
+    case 'boolean':
+      schema.type = 'boolean';
+      break;
+    case 'enum':
+      schema.type = 'string';
+      schema.enum = rule.values;
+      break;
+    case 'array':
+      Object.assign(schema, arrayOf(fromRule(rule.items)));
+      if (rule.minItems !== undefined) schema.minItems = rule.minItems;
+      if (rule.maxItems !== undefined) schema.maxItems = rule.maxItems;
+      break;
+    case 'object':
+      Object.assign(schema, rule.schema ? fromValidationSchema(rule.schema) : record);
+      break;
+  }
+
+  if (rule.description) schema.description = rule.description;
+  if (rule.nullable) {
+    schema.type = [schema.type as 'string' | 'number' | 'integer' | 'boolean', 'null'];
+    if (schema.enum) schema.enum = [...schema.enum, null];
+  }
+  return schema;
+}
+
+/**
+ * Describes a request body schema from packages/types as JSON Schema, so the
+ * documented body is exactly the one validateBody enforces.
+ */
+export function fromValidationSchema<T>(schema: Schema<T>): JsonSchema {
+  const rules = Object.entries(schema) as [string, FieldRule][];
+  return {
+    type: 'object',
+    properties: Object.fromEntries(rules.map(([field, rule]) => [field, fromRule(rule)])),
+    required: rules.filter(([, rule]) => !rule.optional).map(([field]) => field),
+  };
+}
+
+/**
+ * An object schema for a shared type. The required list is checked too: it
+ * may only name fields T does not mark optional.
+ */
+export function objectSchema<T>(properties: Properties<T>, required: RequiredKeys<T>[] = []): JsonSchema {
+  return { type: 'object', properties, required: required as string[] };
+}
+
+export function arrayOf(items: JsonSchema): JsonSchema {
+  return { type: 'array', items };
+}
+
+export function ref(component: string): JsonSchema {
+  return { $ref: `#/components/schemas/${component}` };
+}
+
+// A response with one top-level key, e.g. { user: {...} }, as most routes return
+export function envelope(key: string, schema: JsonSchema): JsonSchema {
+  return { type: 'object', properties: { [key]: schema }, required: [key] };
+}
+
+// A database row or other record this document does not describe field by field
+export const record: JsonSchema = { type: 'object', additionalProperties: true };
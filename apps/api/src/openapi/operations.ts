@@ -0,0 +1,657 @@
+import type { ExtractSchema } from 'hono/types';
+import type { AppType, WebhookAppType } from '../index';
+import { createApiKeySchema } from '../../../../packages/types/apiKey';
+import { createJobApplicationSchema, updateJobApplicationStageSchema } from '../../../../packages/types/jobApplication';
+import { createJobSchema, updateJobSchema } from '../../../../packages/types/job';
+import {
+  addOrganizationMemberSchema,
+  createOrganizationSchema,
+  updateOrganizationMemberSchema,
+} from '../../../../packages/types/organization';
+import { createRecommendationRuleSchema, updateRecommendationRuleSchema } from '../../../../packages/types/recommendationRule';
+import { MAX_BULK_SCORE_ROWS, createScoreSchema } from '../../../../packages/types/score';
+import {
+  addTeamMemberSchema,
+  createTeamInvitationSchema,
+  createTeamSchema,
+  updateTeamSchema,
+} from '../../../../packages/types/team';
+import {
+  createTrainingSessionSchema,
+  createWellnessMetricSchema,
+  updateTrainingSessionSchema,
+  wellnessCheckInSchema,
+} from '../../../../packages/types/training';
+import { createUserSchema, updateUserSchema } from '../../../../packages/types/user';
+import { Schema } from '../../../../packages/types/validation';
+import { webhookEventStatuses } from '../../../../packages/types/webhookEvent';
+import { JsonSchema, arrayOf, envelope, record, ref } from './jsonSchema';
+
+// How a caller proves who they are: a Clerk session token or API key, or a webhook signature
+export type Authentication = 'bearer' | 'stripe' | 'svix';
+
+export interface ResponseDoc {
+  description: string;
+  // application/json unless given
+  contentType?: string;
+  schema?: JsonSchema;
+}
+
+type Routes = ExtractSchema<AppType> & ExtractSchema<WebhookAppType>;
+
+type RouteInput<R> = R extends { input: infer Input } ? Input : unknown;
+
+// A route that validates its body or query must document the very schema or
+// parameters it validates; other routes describe theirs by hand. Without a
+// route (unknown input) the doc may take any of these shapes.
+type BodyDoc<Input> = unknown extends Input
+  ? { schema?: Schema<unknown>; body?: JsonSchema; alternativeBodies?: Record<string, JsonSchema> }
+  : [Input] extends [{ json: infer Body }]
+    ? { schema: Schema<Body>; body?: never }
+    : { schema?: never; body?: JsonSchema; alternativeBodies?: Record<string, JsonSchema> };
+
+type QueryDoc<Input> = unknown extends Input
+  ? { query?: Record<string, string> }
+  : [Input] extends [{ query: infer Query }]
+    ? { query: Record<keyof Required<Query>, string> }
+    : { query?: Record<string, string> };
+
+export type OperationDoc<R = unknown> = {
+  tag: string;
+  summary: string;
+  description?: string;
+  // bearer unless given
+  authentication?: Authentication;
+  // Descriptions of path parameters
+  params?: Record<string, string>;
+  // Successful responses by status. Error responses are added with the
+  // shared error body; list a status here only to explain when it happens.
+  responses: Record<number, ResponseDoc>;
+  errors?: Record<number, string>;
+} & BodyDoc<RouteInput<R>> & QueryDoc<RouteInput<R>>;
+
+// Wildcard paths are middleware, not operations
+type DocumentedPath = Exclude<keyof Routes, `${string}*`>;
+
+export type Operations = {
+  [P in DocumentedPath]: { [M in keyof Routes[P]]: OperationDoc<Routes[P][M]> };
+};
+
+const message = (description: string): ResponseDoc => ({ description, schema: ref('Message') });
+const dateRange = {
+  from: 'Earliest date to include (ISO 8601)',
+  to: 'Latest date to include (ISO 8601)',
+};
+
+/**
+ * Every operation the API serves. The type is derived from the route
+ * definitions, so adding, removing or renaming a route, or changing the
+ * schema or query a route validates, fails the type check until this
+ * catalogue is updated to match.
+ */
+export const operations: Operations = {
+  '/api/organizations': {
+    $get: {
+      tag: 'Organizations',
+      summary: 'List organizations',
+      description: 'Global admins see every organization; everyone else the ones they belong to.',
+      responses: { 200: { description: 'The organizations', schema: envelope('organizations', arrayOf(record)) } },
+    },
+    $post: {
+      tag: 'Organizations',
+      summary: 'Create an organization',
+      description: 'Only global admins may create organizations.',
+      schema: createOrganizationSchema,
+      responses: { 201: { description: 'The new organization', schema: envelope('organization', record) } },
+      errors: { 409: 'The slug is taken' },
+    },
+  },
+  '/api/organizations/:orgId/members': {
+    $get: {
+      tag: 'Organizations',
+      summary: "List an organization's members",
+      responses: { 200: { description: 'The members', schema: envelope('members', arrayOf(record)) } },
+    },
+    $post: {
+      tag: 'Organizations',
+      summary: 'Add an existing user to an organization',
+      description: 'Global admins only. Organization admins invite people to a team instead, and they join on accepting.',
+      schema: addOrganizationMemberSchema,
+      responses: { 201: { description: 'The membership', schema: envelope('member', record) } },
+      errors: { 409: 'The user is already a member' },
+    },
+  },
+  '/api/organizations/:orgId/subscription': {
+    $get: {
+      tag: 'Organizations',
+      summary: "Get an organization's subscription",
+      description: 'Includes the plan and what it entitles the organization to.',
+      responses: { 200: { description: 'The plan, its entitlements and the Stripe subscriptions' } },
+    },
+  },
+  '/api/organizations/:orgId/members/:userId': {
+    $patch: {
+      tag: 'Organizations',
+      summary: "Change a member's organization role",
+      schema: updateOrganizationMemberSchema,
+      responses: { 200: { description: 'The membership', schema: envelope('member', record) } },
+      errors: { 409: "The member is the organization's last organization admin" },
+    },
+    $delete: {
+      tag: 'Organizations',
+      summary: 'Remove a member from an organization',
+      description: "Also removes them from the organization's teams.",
+      responses: { 200: message('The member was removed') },
+      errors: { 409: "The member is the organization's last organization admin" },
+    },
+  },
+
+  '/api/users': {
+    $get: {
+      tag: 'Users',
+      summary: 'List users',
+      description: 'User managers see the whole organization; coaches see themselves and the athletes they coach.',
+      responses: { 200: { description: 'The users', schema: envelope('users', arrayOf(record)) } },
+    },
+    $post: {
+      tag: 'Users',
+      summary: 'Create a user',
+      description: 'The user joins the organization they were created in. Only a global admin may create a global admin.',
+      schema: createUserSchema,
+      responses: { 201: { description: 'The new user', schema: envelope('user', record) } },
+      errors: { 402: "The organization's plan has no room for another athlete", 409: 'The email is in use' },
+    },
+  },
+  '/api/users/:id': {
+    $get: {
+      tag: 'Users',
+      summary: 'Get a user',
+      responses: { 200: { description: 'The user', schema: envelope('user', record) } },
+    },
+    $patch: {
+      tag: 'Users',
+      summary: 'Update a user',
+      description:
+        'Athletes may edit their own profile. Changing a role takes canManageUsers, and granting or revoking ' +
+        'the global admin role, or the role of a user in several organizations, takes a global admin. ' +
+        'Profile fields are cleared with null.',
+      schema: updateUserSchema,
+      responses: { 200: { description: 'The updated user', schema: envelope('user', record) } },
+      errors: { 402: "The organization's plan has no room for another athlete" },
+    },
+    $delete: {
+      tag: 'Users',
+      summary: 'Remove a user from the organization',
+      description:
+        'Once the user belongs to no organization their details are scrubbed; the account is kept for the ' +
+        'records that refer to it. Only a global admin may do this to a global admin.',
+      responses: { 200: message('The user was removed') },
+    },
+  },
+  '/api/users/:id/scores': {
+    $get: {
+      tag: 'Scores',
+      summary: "Get an athlete's latest scores",
+      description: 'One entry per category, with its trend since the previous score.',
+      responses: { 200: { description: 'The scores', schema: envelope('scores', arrayOf(ref('ScoreSummary'))) } },
+    },
+    $post: {
+      tag: 'Scores',
+      summary: 'Record a score for an athlete',
+      schema: createScoreSchema,
+      responses: { 201: { description: 'The stored score', schema: envelope('score', record) } },
+    },
+  },
+  '/api/users/:id/scores/history': {
+    $get: {
+      tag: 'Scores',
+      summary: "Get an athlete's score history",
+      description: 'Scores are averaged per category over each day, week or month in the range.',
+      query: {
+        ...dateRange,
+        bucket: 'day, week (starting Monday, the default) or month',
+        category: 'Only this category',
+      },
+      responses: { 200: { description: 'One series per category, oldest bucket first', schema: ref('ScoreHistory') } },
+    },
+  },
+
+  '/api/users/:id/training-sessions': {
+    $get: {
+      tag: 'Training',
+      summary: "List an athlete's training sessions",
+      query: dateRange,
+      responses: { 200: { description: 'The sessions, newest first', schema: envelope('trainingSessions', arrayOf(record)) } },
+    },
+    $post: {
+      tag: 'Training',
+      summary: 'Log a training session',
+      schema: createTrainingSessionSchema,
+      responses: { 201: { description: 'The session', schema: envelope('trainingSession', record) } },
+    },
+  },
+  '/api/users/:id/training-sessions/:sessionId': {
+    $get: {
+      tag: 'Training',
+      summary: 'Get a training session',
+      responses: { 200: { description: 'The session', schema: envelope('trainingSession', record) } },
+    },
+    $patch: {
+      tag: 'Training',
+      summary: 'Update a training session',
+      schema: updateTrainingSessionSchema,
+      responses: { 200: { description: 'The session', schema: envelope('trainingSession', record) } },
+    },
+    $delete: {
+      tag: 'Training',
+      summary: 'Delete a training session',
+      responses: { 200: message('The session was deleted') },
+    },
+  },
+
+  '/api/users/:id/wellness': {
+    $get: {
+      tag: 'Wellness',
+      summary: "List an athlete's wellness metrics",
+      query: { type: 'Only metrics of this type: sleep, nutrition, recovery or stress', ...dateRange },
+      responses: { 200: { description: 'The metrics, newest first', schema: envelope('wellnessMetrics', arrayOf(record)) } },
+    },
+    $post: {
+      tag: 'Wellness',
+      summary: 'Record a wellness metric',
+      schema: createWellnessMetricSchema,
+      responses: { 201: { description: 'The metric', schema: envelope('wellnessMetric', record) } },
+    },
+  },
+  '/api/users/:id/wellness/check-in': {
+    $post: {
+      tag: 'Wellness',
+      summary: 'Record a daily check-in',
+      description: 'Covers any of sleep, nutrition, recovery and stress at once.',
+      schema: wellnessCheckInSchema,
+      responses: { 201: { description: 'One metric per value given', schema: envelope('wellnessMetrics', arrayOf(record)) } },
+    },
+  },
+  '/api/users/:id/wellness/:metricId': {
+    $delete: {
+      tag: 'Wellness',
+      summary: 'Delete a wellness metric',
+      responses: { 200: message('The metric was deleted') },
+    },
+  },
+
+  '/api/users/:id/analysis': {
+    $get: {
+      tag: 'Analysis',
+      summary: "Get an athlete's analysis",
+      description: 'Returns the latest analysis, computing a fresh one when the stored one is stale.',
+      query: { recompute: 'true to compute a fresh analysis now; needs canManageScores' },
+      responses: { 200: { description: 'The analysis snapshot, with cached telling whether it was stored' } },
+      errors: { 402: "The organization's plan does not include analysis" },
+    },
+  },
+  '/api/users/:id/analysis/history': {
+    $get: {
+      tag: 'Analysis',
+      summary: 'List previous analyses',
+      query: { limit: 'How many snapshots to return, newest first' },
+      responses: { 200: { description: 'The snapshots', schema: envelope('snapshots', arrayOf(record)) } },
+      errors: { 402: "The organization's plan does not include analysis" },
+    },
+  },
+
+  '/api/teams': {
+    $get: {
+      tag: 'Teams',
+      summary: 'List teams',
+      description: 'Admins see every team in the organization; everyone else the teams they belong to.',
+      responses: { 200: { description: 'The teams', schema: envelope('teams', arrayOf(record)) } },
+    },
+    $post: {
+      tag: 'Teams',
+      summary: 'Create a team',
+      description: 'The creator becomes its head coach.',
+      schema: createTeamSchema,
+      responses: { 201: { description: 'The team', schema: envelope('team', record) } },
+    },
+  },
+  '/api/teams/invitations/:token/accept': {
+    $post: {
+      tag: 'Teams',
+      summary: 'Accept a team invitation',
+      description: "The invitation must have been sent to the caller's email. The caller also joins the team's organization.",
+      responses: { 200: { description: 'The team, organization and role joined' } },
+    },
+  },
+  '/api/teams/:teamId': {
+    $get: {
+      tag: 'Teams',
+      summary: 'Get a team and its roster',
+      responses: { 200: { description: 'The team and its members' } },
+    },
+    $patch: {
+      tag: 'Teams',
+      summary: 'Update a team',
+      schema: updateTeamSchema,
+      responses: { 200: { description: 'The team', schema: envelope('team', record) } },
+    },
+    $delete: {
+      tag: 'Teams',
+      summary: 'Delete a team',
+      responses: { 200: message('The team was deleted') },
+    },
+  },
+  '/api/teams/:teamId/members': {
+    $post: {
+      tag: 'Teams',
+      summary: 'Add an existing user to a team',
+      description: 'Admins only; head coaches invite people instead, and they join on accepting.',
+      schema: addTeamMemberSchema,
+      responses: { 201: { description: 'The membership', schema: envelope('member', record) } },
+      errors: { 402: "The organization's plan has no room for another athlete" },
+    },
+  },
+  '/api/teams/:teamId/members/:userId': {
+    $delete: {
+      tag: 'Teams',
+      summary: 'Remove a team member',
+      description: 'Members may also remove themselves.',
+      responses: { 200: message('The member was removed') },
+    },
+  },
+  '/api/teams/:teamId/invitations': {
+    $get: {
+      tag: 'Teams',
+      summary: 'List pending invitations',
+      responses: { 200: { description: 'The invitations', schema: envelope('invitations', arrayOf(record)) } },
+    },
+    $post: {
+      tag: 'Teams',
+      summary: 'Invite someone by email',
+      description: 'The returned token is sent to the invitee out of band.',
+      schema: createTeamInvitationSchema,
+      responses: { 201: { description: 'The invitation and its token', schema: envelope('invitation', record) } },
+    },
+  },
+  '/api/teams/:teamId/invitations/:invitationId': {
+    $delete: {
+      tag: 'Teams',
+      summary: 'Revoke a pending invitation',
+      responses: { 200: message('The invitation was revoked') },
+    },
+  },
+
+  '/api/jobs/applications': {
+    $get: {
+      tag: 'Jobs',
+      summary: "List the caller's applications",
+      responses: { 200: { description: 'The applications with their jobs', schema: envelope('applications', arrayOf(record)) } },
+    },
+  },
+  '/api/jobs/:id/applications': {
+    $post: {
+      tag: 'Jobs',
+      summary: 'Apply to a job',
+      schema: createJobApplicationSchema,
+      responses: { 201: { description: 'The application', schema: envelope('application', record) } },
+      errors: { 409: 'The caller has already applied' },
+    },
+    $get: {
+      tag: 'Jobs',
+      summary: "List a job's applicants",
+      description: "Only the job's poster or an admin may.",
+      query: { stage: 'Only applications in this stage' },
+      responses: { 200: { description: 'The applications', schema: envelope('applications', arrayOf(record)) } },
+    },
+  },
+  '/api/jobs/:id/applications/:applicationId': {
+    $patch: {
+      tag: 'Jobs',
+      summary: 'Move an application to another stage',
+      schema: updateJobApplicationStageSchema,
+      responses: { 200: { description: 'The application', schema: envelope('application', record) } },
+    },
+  },
+  '/api/jobs': {
+    $get: {
+      tag: 'Jobs',
+      summary: 'Search jobs',
+      description: 'Unpublished and archived jobs are listed only to their poster and admins.',
+      query: {
+        q: 'Keywords; every word must match',
+        status: 'draft, scheduled, active (default), closed or archived',
+        location: 'Part of the location',
+        salaryMin: 'Lowest acceptable salary',
+        salaryMax: 'Highest acceptable salary',
+        postedAfter: 'Earliest publish date (ISO 8601)',
+        postedBefore: 'Latest publish date (ISO 8601)',
+        sort: 'newest (default), oldest, salary_high, salary_low or relevance (with q; the default then)',
+        limit: 'Page size, 1-100 (default 20)',
+        cursor: 'The nextCursor of the previous page',
+      },
+      responses: { 200: { description: 'A page of jobs, the total and the next page cursor' } },
+    },
+    $post: {
+      tag: 'Jobs',
+      summary: 'Post a job',
+      description: 'The job is a draft, live now, or scheduled for its publishAt.',
+      schema: createJobSchema,
+      responses: { 201: { description: 'The job', schema: envelope('job', record) } },
+    },
+  },
+  '/api/jobs/:id': {
+    $get: {
+      tag: 'Jobs',
+      summary: 'Get a job',
+      responses: { 200: { description: 'The job', schema: envelope('job', record) } },
+    },
+    $patch: {
+      tag: 'Jobs',
+      summary: 'Update a job',
+      description: 'Also moves the job through its lifecycle with status.',
+      schema: updateJobSchema,
+      responses: { 200: { description: 'The job', schema: envelope('job', record) } },
+    },
+    $delete: {
+      tag: 'Jobs',
+      summary: 'Archive a job',
+      description: 'The posting and its applications are kept on record.',
+      responses: { 200: message('The job was archived') },
+    },
+  },
+
+  '/api/scores/import': {
+    $post: {
+      tag: 'Scores',
+      summary: 'Import scores in bulk',
+      description: `Up to ${MAX_BULK_SCORE_ROWS} rows, as JSON or as CSV with a header row. Rows that fail are reported and the rest imported.`,
+      body: {
+        oneOf: [
+          { ...arrayOf(ref('BulkScoreRow')), minItems: 1, maxItems: MAX_BULK_SCORE_ROWS },
+          envelope('rows', { ...arrayOf(ref('BulkScoreRow')), minItems: 1, maxItems: MAX_BULK_SCORE_ROWS }),
+        ],
+      },
+      alternativeBodies: {
+        'text/csv': { type: 'string', description: 'Columns athlete (or athlete_id or athlete_email), category, score, notes, recorded_at' },
+      },
+      responses: { 201: { description: 'At least one row was imported', schema: ref('BulkScoreResult') } },
+      errors: { 400: 'No row could be imported; the body is then the import report instead' },
+    },
+  },
+
+  '/api/recommendation-rules': {
+    $get: {
+      tag: 'Recommendation rules',
+      summary: 'List stored rules',
+      query: { sport: 'Only rules for this sport' },
+      responses: { 200: { description: 'The rules', schema: envelope('rules', arrayOf(ref('RecommendationRule'))) } },
+    },
+    $post: {
+      tag: 'Recommendation rules',
+      summary: 'Create a rule',
+      schema: createRecommendationRuleSchema,
+      responses: { 201: { description: 'The rule', schema: envelope('rule', ref('RecommendationRule')) } },
+    },
+  },
+  '/api/recommendation-rules/defaults': {
+    $get: {
+      tag: 'Recommendation rules',
+      summary: 'Get the built-in rules',
+      description: 'A starting point for custom rules.',
+      responses: { 200: { description: 'The rules', schema: envelope('rules', arrayOf(ref('RecommendationRule'))) } },
+    },
+  },
+  '/api/recommendation-rules/:ruleId': {
+    $get: {
+      tag: 'Recommendation rules',
+      summary: 'Get a rule',
+      responses: { 200: { description: 'The rule', schema: envelope('rule', ref('RecommendationRule')) } },
+    },
+    $patch: {
+      tag: 'Recommendation rules',
+      summary: 'Update a rule',
+      schema: updateRecommendationRuleSchema,
+      responses: { 200: { description: 'The rule', schema: envelope('rule', ref('RecommendationRule')) } },
+    },
+    $delete: {
+      tag: 'Recommendation rules',
+      summary: 'Delete a rule',
+      responses: { 200: message('The rule was deleted') },
+    },
+  },
+
+  '/api/api-keys': {
+    $get: {
+      tag: 'API keys',
+      summary: "List the organization's API keys",
+      description: 'Organization admins only, in a session rather than with a key.',
+      responses: { 200: { description: 'The keys, newest first; never the keys themselves', schema: envelope('apiKeys', arrayOf(record)) } },
+    },
+    $post: {
+      tag: 'API keys',
+      summary: 'Create an API key',
+      description: 'The key itself is only ever returned here.',
+      schema: createApiKeySchema,
+      responses: { 201: { description: 'The key and its details' } },
+    },
+  },
+  '/api/api-keys/:id': {
+    $delete: {
+      tag: 'API keys',
+      summary: 'Revoke an API key',
+      description: 'The key stops working immediately and cannot be restored.',
+      responses: { 200: { description: 'The revoked key', schema: envelope('apiKey', record) } },
+    },
+  },
+
+  '/api/audit-log': {
+    $get: {
+      tag: 'Audit log',
+      summary: "Query the organization's audit log",
+      description: 'Organization admins only. Newest first.',
+      query: {
+        actorId: 'Only changes by this user',
+        apiKeyId: 'Only changes made with this API key',
+        action: 'Only this action, e.g. user.update',
+        entityType: 'Only changes to this kind of record, e.g. user',
+        entityId: 'Only changes to this record',
+        ...dateRange,
+        limit: 'Page size, 1-200 (default 50)',
+        cursor: 'The nextCursor of the previous page',
+      },
+      responses: {
+        200: {
+          description: 'A page of entries and the next page cursor',
+          schema: {
+            type: 'object',
+            properties: {
+              entries: arrayOf(ref('AuditLogEntry')),
+              nextCursor: { type: ['string', 'null'], description: 'null on the last page' },
+            },
+            required: ['entries', 'nextCursor'],
+          },
+        },
+      },
+    },
+  },
+
+  '/api/billing/history/:userId': {
+    $get: {
+      tag: 'Billing',
+      summary: "Get a user's billing history",
+      description: 'Users see their own; others need canManageBilling. Includes totals per currency.',
+      query: dateRange,
+      responses: {
+        200: {
+          description: 'The billing records with their status history, and totals',
+          schema: {
+            type: 'object',
+            properties: { billingRecords: arrayOf(record), totals: arrayOf(ref('BillingTotal')), from: { type: ['string', 'null'] }, to: { type: ['string', 'null'] } },
+            required: ['billingRecords', 'totals', 'from', 'to'],
+          },
+        },
+      },
+    },
+  },
+  '/api/billing/history/:userId/statement.csv': {
+    $get: {
+      tag: 'Billing',
+      summary: 'Download a billing statement as CSV',
+      query: dateRange,
+      responses: { 200: { description: 'One row per payment', contentType: 'text/csv', schema: { type: 'string' } } },
+    },
+  },
+  '/api/billing/history/:userId/statement.pdf': {
+    $get: {
+      tag: 'Billing',
+      summary: 'Download a billing statement as PDF',
+      query: dateRange,
+      responses: { 200: { description: 'A printable statement with totals', contentType: 'application/pdf', schema: { type: 'string', format: 'binary' } } },
+    },
+  },
+
+  '/webhooks/billing': {
+    $post: {
+      tag: 'Webhooks',
+      summary: 'Receive a Stripe event',
+      description:
+        'Called by Stripe. Handles payment_intent.succeeded, payment_intent.payment_failed, invoice.paid, ' +
+        'invoice.payment_failed, charge.refunded, charge.dispute.created, charge.dispute.closed and ' +
+        'customer.subscription.created/updated/deleted; other events are acknowledged and ignored. ' +
+        'Deliveries are idempotent by event ID. A 500 asks Stripe to retry.',
+      authentication: 'stripe',
+      body: { type: 'object', description: 'A Stripe event', properties: { id: { type: 'string' }, type: { type: 'string' }, data: record }, required: ['id', 'type', 'data'] },
+      responses: { 200: { description: 'The event was applied, or had been already (duplicate: true)' } },
+    },
+  },
+  '/webhooks/billing/events': {
+    $get: {
+      tag: 'Webhooks',
+      summary: 'List logged Stripe events',
+      description: 'Global admins only.',
+      query: { status: `${webhookEventStatuses.join(', ')}; failed by default` },
+      responses: { 200: { description: 'Up to 100 events, newest first', schema: envelope('events', arrayOf(record)) } },
+    },
+  },
+  '/webhooks/billing/events/:eventId/replay': {
+    $post: {
+      tag: 'Webhooks',
+      summary: 'Replay a failed Stripe event',
+      description: 'Global admins only. Re-runs the event from its stored payload.',
+      responses: { 200: { description: 'The event after the replay', schema: envelope('event', record) } },
+      errors: { 409: 'Only failed events can be replayed', 500: 'The replay failed again; the body is the event' },
+    },
+  },
+  '/webhooks/clerk': {
+    $post: {
+      tag: 'Webhooks',
+      summary: 'Receive a Clerk event',
+      description:
+        'Called by Clerk through Svix. Handles user.created, user.updated and user.deleted to keep users in sync; ' +
+        'other events are acknowledged and ignored.',
+      authentication: 'svix',
+      body: { type: 'object', description: 'A Clerk event', properties: { type: { type: 'string' }, data: record }, required: ['type', 'data'] },
+      responses: { 200: { description: 'The event was applied' } },
+    },
+  },
+};
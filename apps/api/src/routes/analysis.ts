@@ -0,0 +1,124 @@
+import { Hono } from 'hono';
+import { HolisticAgent, HolisticAnalysis } from '../agents/holisticAgent';
+import { loadAthleteData, loadRecommendationRules } from '../agents/athleteData';
+import { requireEntitlement } from '../middleware/entitlementMiddleware';
+import { getOrganizationId } from '../middleware/organizationMiddleware';
+import { requirePermission, requireRosterAccess } from '../middleware/permissionMiddleware';
+import { apiError, handleRouteError } from '../utils/errors';
+import { fromSqlTimestamp } from '../utils/timestamps';
+
+type Bindings = {
+  DB: D1Database;
+};
+
+interface AnalysisRow {
+  id: string;
+  overall_score: number;
+  analysis: string;
+  created_at: string;
+}
+
+// A cached snapshot older than this is recomputed on the next read
+const ANALYSIS_TTL = 24 * 60 * 60 * 1000; // 1 day
+const DEFAULT_HISTORY_LIMIT = 12;
+const MAX_HISTORY_LIMIT = 100;
+
+function toSnapshot(row: AnalysisRow) {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    analysis: JSON.parse(row.analysis) as HolisticAnalysis,
+  };
+}
+
+/**
+ * Runs HolisticAgent against the athlete's current data in an organization,
+ * using that organization's recommendation rules for their sport, and stores
+ * the result.
+ */
+async function computeSnapshot(
+  db: D1Database,
+  organizationId: string,
+  userId: string,
+  sport: string | null
+): Promise<AnalysisRow> {
+  const [data, rules] = await Promise.all([
+    loadAthleteData(db, organizationId, userId),
+    loadRecommendationRules(db, organizationId, sport),
+  ]);
+  const analysis = await new HolisticAgent({ rules }).analyze(data);
+  const id = crypto.randomUUID();
+
+  await db.prepare(
+    `INSERT INTO athlete_analyses (id, organization_id, user_id, overall_score, analysis)
+     VALUES (?, ?, ?, ?, ?)`
+  ).bind(id, organizationId, userId, analysis.overallScore, JSON.stringify(analysis)).run();
+
+  return (await db.prepare(
+    'SELECT id, overall_score, analysis, created_at FROM athlete_analyses WHERE id = ?'
+  ).bind(id).first<AnalysisRow>())!;
+}
+
+// Mounted at /api/users alongside userRoutes
+const analysisRoutes = new Hono<{ Bindings: Bindings }>().basePath('/:id/analysis')
+  .use('*', requirePermission('canViewDashboard'), requireRosterAccess(), requireEntitlement('analysisAccess'))
+
+  // Get the athlete's latest analysis, computing a fresh one if the cache is stale
+  .get('/', async (c) => {
+    const userId = c.req.param('id');
+    const organizationId = getOrganizationId(c);
+    const recompute = c.req.query('recompute') === 'true';
+
+    // Forcing a fresh run is for staff who have just entered new data
+    if (recompute && !c.get('permissions').canManageScores) {
+      return apiError(c, 403, 'Forbidden: missing permission canManageScores');
+    }
+
+    try {
+      const athlete = await c.env.DB.prepare(
+        'SELECT id, sport FROM users WHERE id = ?'
+      ).bind(userId).first<{ id: string; sport: string | null }>();
+
+      if (!athlete) {
+        return apiError(c, 404, 'User not found');
+      }
+
+      let row = recompute
+        ? null
+        : await c.env.DB.prepare(
+            `SELECT id, overall_score, analysis, created_at FROM athlete_analyses
+             WHERE organization_id = ? AND user_id = ? ORDER BY created_at DESC LIMIT 1`
+          ).bind(organizationId, userId).first<AnalysisRow>();
+
+      const cached = row !== null && Date.now() - fromSqlTimestamp(row.created_at).getTime() < ANALYSIS_TTL;
+      if (!row || !cached) {
+        row = await computeSnapshot(c.env.DB, organizationId, userId, athlete.sport);
+      }
+
+      return c.json({ ...toSnapshot(row), cached });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to analyze athlete');
+    }
+  })
+
+  // List previous analysis snapshots, newest first
+  .get('/history', async (c) => {
+    const userId = c.req.param('id');
+    const limit = Math.min(
+      Math.max(parseInt(c.req.query('limit') || '', 10) || DEFAULT_HISTORY_LIMIT, 1),
+      MAX_HISTORY_LIMIT
+    );
+
+    try {
+      const { results } = await c.env.DB.prepare(
+        `SELECT id, overall_score, analysis, created_at FROM athlete_analyses
+         WHERE organization_id = ? AND user_id = ? ORDER BY created_at DESC LIMIT ?`
+      ).bind(getOrganizationId(c), userId, limit).all<AnalysisRow>();
+
+      return c.json({ snapshots: results.map(toSnapshot) });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch analysis history');
+    }
+  });
+
+export default analysisRoutes;
@@ -0,0 +1,134 @@
+import { Hono } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { HTTPException } from 'hono/http-exception';
+import { ApiKeyScope, createApiKeySchema } from '../../../../packages/types/apiKey';
+import { generateApiKey, hashApiKey } from '../middleware/apiKeyMiddleware';
+import { recordChange } from '../middleware/auditMiddleware';
+import { getOrganizationId } from '../middleware/organizationMiddleware';
+import { isAdmin } from '../middleware/permissionMiddleware';
+import { validateBody } from '../middleware/validationMiddleware';
+import { apiError, handleRouteError } from '../utils/errors';
+import { toSqlTimestamp } from '../utils/timestamps';
+
+type Bindings = {
+  DB: D1Database;
+};
+
+// Characters of the key kept for display, enough to tell keys apart
+const KEY_PREFIX_LENGTH = 12;
+
+// Every column but the hash
+const API_KEY_COLUMNS =
+  'id, organization_id, name, key_prefix, scopes, created_by, last_used_at, expires_at, revoked_at, created_at';
+
+function toApiKey(row: Record<string, unknown>) {
+  return { ...row, scopes: JSON.parse(row.scopes as string) as ApiKeyScope[] };
+}
+
+// Keys are managed by organization admins in a session; a key cannot mint keys
+const requireKeyAdmin = createMiddleware(async (c, next) => {
+  if (c.get('apiKey') || !isAdmin(c)) {
+    throw new HTTPException(403, { message: 'Forbidden: only an organization admin may manage API keys' });
+  }
+  await next();
+});
+
+const apiKeyRoutes = new Hono<{ Bindings: Bindings }>()
+  .use('*', requireKeyAdmin)
+
+  // List the organization's API keys, newest first
+  .get('/', async (c) => {
+    try {
+      const { results } = await c.env.DB.prepare(
+        `SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE organization_id = ? ORDER BY created_at DESC`
+      ).bind(getOrganizationId(c)).all();
+
+      return c.json({ apiKeys: results.map(toApiKey) });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch API keys');
+    }
+  })
+
+  // Create an API key; the key itself is only ever returned here
+  .post('/', validateBody(createApiKeySchema), async (c) => {
+    try {
+      const body = c.req.valid('json');
+
+      // Keys act as their creator and stop working when the creator leaves the organization
+      if (!c.get('orgRole')) {
+        return apiError(c, 400, 'Only members of the organization can create its API keys');
+      }
+
+      let expiresAt: string | null = null;
+      if (body.expiresAt !== undefined) {
+        const date = new Date(body.expiresAt);
+        if (date <= new Date()) {
+          return apiError(c, 400, 'Request body is invalid', {
+            code: 'validation_failed',
+            details: [{ field: 'expiresAt', message: 'must be a date in the future' }],
+          });
+        }
+        expiresAt = toSqlTimestamp(date);
+      }
+
+      const id = crypto.randomUUID();
+      const key = generateApiKey();
+      const scopes = [...new Set(body.scopes)];
+
+      await c.env.DB.prepare(
+        `INSERT INTO api_keys (id, organization_id, name, key_prefix, key_hash, scopes, created_by, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        id,
+        getOrganizationId(c),
+        body.name,
+        key.slice(0, KEY_PREFIX_LENGTH),
+        await hashApiKey(key),
+        JSON.stringify(scopes),
+        c.get('user').id,
+        expiresAt
+      ).run();
+
+      const apiKey = await c.env.DB.prepare(
+        `SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = ?`
+      ).bind(id).first();
+
+      recordChange(c, { action: 'api_key.create', entityType: 'api_key', entityId: id, after: apiKey });
+      return c.json({ apiKey: toApiKey(apiKey!), key }, 201);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to create API key');
+    }
+  })
+
+  // Revoke an API key; it stops working immediately and cannot be restored
+  .delete('/:id', async (c) => {
+    const id = c.req.param('id');
+
+    try {
+      const existing = await c.env.DB.prepare(
+        `SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = ? AND organization_id = ?`
+      ).bind(id, getOrganizationId(c)).first<{ revoked_at: string | null }>();
+
+      if (!existing) {
+        return apiError(c, 404, 'API key not found');
+      }
+      if (existing.revoked_at) {
+        return apiError(c, 400, 'API key is already revoked');
+      }
+
+      await c.env.DB.prepare(
+        'UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ?'
+      ).bind(id).run();
+
+      const apiKey = await c.env.DB.prepare(
+        `SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE id = ?`
+      ).bind(id).first();
+
+      recordChange(c, { action: 'api_key.revoke', entityType: 'api_key', entityId: id, before: existing, after: apiKey });
+      return c.json({ apiKey: toApiKey(apiKey!) });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to revoke API key');
+    }
+  });
+
+export default apiKeyRoutes;
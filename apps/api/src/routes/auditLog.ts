@@ -0,0 +1,98 @@
+import { Hono } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { HTTPException } from 'hono/http-exception';
+import { AuditLogEntry } from '../../../../packages/types/auditLog';
+import { getOrganizationId } from '../middleware/organizationMiddleware';
+import { isAdmin } from '../middleware/permissionMiddleware';
+import { validateQuery } from '../middleware/validationMiddleware';
+import { auditLogFilterColumns, parseAuditLogQuery } from '../utils/auditLogQuery';
+import { handleRouteError } from '../utils/errors';
+import { fromSqlTimestamp } from '../utils/timestamps';
+
+type Bindings = {
+  DB: D1Database;
+};
+
+interface AuditLogRow {
+  id: number;
+  organization_id: string | null;
+  actor_id: string | null;
+  api_key_id: string | null;
+  action: string;
+  entity_type: string | null;
+  entity_id: string | null;
+  changes: string | null;
+  method: string;
+  path: string;
+  status: number;
+  ip_address: string | null;
+  created_at: string;
+}
+
+function rowToAuditLogEntry(row: AuditLogRow): AuditLogEntry {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    actorId: row.actor_id,
+    apiKeyId: row.api_key_id,
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    changes: row.changes ? JSON.parse(row.changes) : null,
+    method: row.method,
+    path: row.path,
+    status: row.status,
+    ipAddress: row.ip_address,
+    createdAt: fromSqlTimestamp(row.created_at),
+  };
+}
+
+const requireAuditAccess = createMiddleware(async (c, next) => {
+  if (!isAdmin(c)) {
+    throw new HTTPException(403, { message: 'Forbidden: only an organization admin may read the audit log' });
+  }
+  await next();
+});
+
+const auditLogRoutes = new Hono<{ Bindings: Bindings }>()
+  // Query the organization's audit log, newest first. `cursor` is the nextCursor of the previous page.
+  .get('/', requireAuditAccess, validateQuery(parseAuditLogQuery), async (c) => {
+    const { filters, from, to, cursor, limit } = c.req.valid('query');
+    const conditions = ['organization_id = ?'];
+    const values: (string | number)[] = [getOrganizationId(c)];
+
+    for (const [param, value] of Object.entries(filters) as [keyof typeof filters, string][]) {
+      conditions.push(`${auditLogFilterColumns[param]} = ?`);
+      values.push(value);
+    }
+    if (from) {
+      conditions.push('created_at >= ?');
+      values.push(from);
+    }
+    if (to) {
+      conditions.push('created_at <= ?');
+      values.push(to);
+    }
+    if (cursor !== null) {
+      conditions.push('id < ?');
+      values.push(cursor);
+    }
+
+    try {
+      // One extra row tells whether there is another page
+      const { results } = await c.env.DB.prepare(
+        `SELECT * FROM audit_log WHERE ${conditions.join(' AND ')} ORDER BY id DESC LIMIT ?`
+      ).bind(...values, limit + 1).all<AuditLogRow>();
+
+      const entries = results.slice(0, limit).map(rowToAuditLogEntry);
+
+      return c.json({
+        entries,
+        nextCursor: results.length > limit ? String(entries[entries.length - 1].id) : null,
+      });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch audit log');
+    }
+  });
+
+export default auditLogRoutes;
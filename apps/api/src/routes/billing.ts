@@ -0,0 +1,229 @@
+import { Context, Hono } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { HTTPException } from 'hono/http-exception';
+import { BillingStatus, BillingTotal } from '../../../../packages/types/billing';
+import { getOrganizationId } from '../middleware/organizationMiddleware';
+import { validateQuery } from '../middleware/validationMiddleware';
+import { toCsv } from '../utils/csv';
+import { handleRouteError } from '../utils/errors';
+import { renderTextPdf } from '../utils/pdf';
+import { DateRange, parseDateRange, toSqlTimestamp } from '../utils/timestamps';
+
+type Bindings = {
+  DB: D1Database;
+};
+
+interface StatementRecord {
+  id: string;
+  amount: number;
+  refunded_amount: number;
+  currency: string;
+  status: BillingStatus;
+  stripe_payment_id: string | null;
+  stripe_invoice_id: string | null;
+  created_at: string;
+}
+
+interface Statement {
+  user: { id: string; email: string; first_name: string | null; last_name: string | null };
+  organization: { id: string; name: string };
+  period: DateRange;
+  billingRecords: StatementRecord[];
+  totals: BillingTotal[];
+}
+
+// Currencies Stripe charges in whole units rather than hundredths
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF',
+]);
+
+function formatAmount(amount: number, currency: string): string {
+  const decimals = ZERO_DECIMAL_CURRENCIES.has(currency) ? 0 : 2;
+  return (amount / 10 ** decimals).toFixed(decimals);
+}
+
+function describeRecord(record: StatementRecord): string {
+  return record.stripe_invoice_id ? 'Subscription invoice' : 'Payment';
+}
+
+/**
+ * Loads a user's billing records in the active organization for the period,
+ * each with its status history, and their totals per currency.
+ */
+async function loadStatement(c: Context<{ Bindings: Bindings }>, period: DateRange): Promise<Statement> {
+  const db = c.env.DB;
+  const organizationId = getOrganizationId(c);
+  const userId = c.req.param('userId')!;
+
+  const [user, organization] = await Promise.all([
+    db.prepare(
+      `SELECT users.id, users.email, users.first_name, users.last_name FROM users
+       JOIN organization_members ON organization_members.user_id = users.id
+       WHERE users.id = ? AND organization_members.organization_id = ?`
+    ).bind(userId, organizationId).first<Statement['user']>(),
+    db.prepare('SELECT id, name FROM organizations WHERE id = ?').bind(organizationId).first<Statement['organization']>(),
+  ]);
+
+  if (!user || !organization) {
+    throw new HTTPException(404, { message: 'Not Found: user does not exist' });
+  }
+
+  const conditions = ['billing_records.organization_id = ?', 'billing_records.user_id = ?'];
+  const values: string[] = [organizationId, userId];
+
+  if (period.from) {
+    conditions.push('billing_records.created_at >= ?');
+    values.push(period.from);
+  }
+  if (period.to) {
+    conditions.push('billing_records.created_at <= ?');
+    values.push(period.to);
+  }
+  const where = conditions.join(' AND ');
+
+  const [records, history, totals] = await db.batch([
+    db.prepare(
+      `SELECT id, amount, refunded_amount, UPPER(currency) AS currency, status,
+              stripe_payment_id, stripe_invoice_id, created_at
+       FROM billing_records WHERE ${where}
+       ORDER BY created_at DESC, id`
+    ).bind(...values),
+    db.prepare(
+      `SELECT billing_record_history.* FROM billing_record_history
+       JOIN billing_records ON billing_records.id = billing_record_history.billing_record_id
+       WHERE ${where}
+       ORDER BY billing_record_history.created_at ASC, billing_record_history.rowid ASC`
+    ).bind(...values),
+    // Failed and pending attempts took no money; a lost dispute gave it all back
+    db.prepare(
+      `SELECT UPPER(currency) AS currency,
+              SUM(CASE WHEN status IN ('pending', 'failed') THEN 0 ELSE amount END) AS charged,
+              SUM(CASE WHEN status = 'dispute_lost' THEN amount ELSE refunded_amount END) AS refunded
+       FROM billing_records WHERE ${where}
+       GROUP BY UPPER(currency) ORDER BY UPPER(currency)`
+    ).bind(...values),
+  ]);
+
+  const entries = history.results as { billing_record_id: string }[];
+
+  return {
+    user,
+    organization,
+    period,
+    billingRecords: (records.results as StatementRecord[]).map((record) => ({
+      ...record,
+      statusHistory: entries.filter((entry) => entry.billing_record_id === record.id),
+    })),
+    totals: (totals.results as Omit<BillingTotal, 'net'>[]).map((total) => ({
+      ...total,
+      net: total.charged - total.refunded,
+    })),
+  };
+}
+
+function statementFilename(statement: Statement, extension: string): string {
+  const from = statement.period.from?.slice(0, 10) ?? 'start';
+  const to = statement.period.to?.slice(0, 10) ?? toSqlTimestamp(new Date()).slice(0, 10);
+  return `statement-${from}-to-${to}.${extension}`;
+}
+
+// Users may read their own billing; anyone else needs billing access
+const requireBillingAccess = createMiddleware(async (c, next) => {
+  if (c.req.param('userId') !== c.get('user').id && !c.get('permissions').canManageBilling) {
+    throw new HTTPException(403, { message: 'Forbidden: missing permission canManageBilling' });
+  }
+  await next();
+});
+
+const billingRoutes = new Hono<{ Bindings: Bindings }>()
+  // Get a user's billing history with totals per currency, optionally within a date range
+  .get('/history/:userId', requireBillingAccess, validateQuery(parseDateRange), async (c) => {
+    const period = c.req.valid('query');
+
+    try {
+      const { billingRecords, totals } = await loadStatement(c, period);
+      return c.json({ billingRecords, totals, ...period });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch billing history');
+    }
+  })
+
+  // Download a user's billing statement as CSV, one row per payment
+  .get('/history/:userId/statement.csv', requireBillingAccess, validateQuery(parseDateRange), async (c) => {
+    const period = c.req.valid('query');
+
+    try {
+      const statement = await loadStatement(c, period);
+
+      const csv = toCsv([
+        ['Date', 'Description', 'Status', 'Amount', 'Refunded', 'Currency', 'Payment ID', 'Invoice ID'],
+        ...statement.billingRecords.map((record) => [
+          record.created_at,
+          describeRecord(record),
+          record.status,
+          formatAmount(record.amount, record.currency),
+          formatAmount(record.refunded_amount, record.currency),
+          record.currency,
+          record.stripe_payment_id,
+          record.stripe_invoice_id,
+        ]),
+      ]);
+
+      return c.body(csv, 200, {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${statementFilename(statement, 'csv')}"`,
+      });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to export billing statement');
+    }
+  })
+
+  // Download a printable PDF statement with totals, e.g. for reimbursement claims
+  .get('/history/:userId/statement.pdf', requireBillingAccess, validateQuery(parseDateRange), async (c) => {
+    const period = c.req.valid('query');
+
+    try {
+      const statement = await loadStatement(c, period);
+      const { user, organization } = statement;
+      const name = [user.first_name, user.last_name].filter(Boolean).join(' ') || user.email;
+      const row = (...columns: string[]) =>
+        columns[0].padEnd(20) + columns[1].padEnd(22) + columns[2].padEnd(20) + columns.slice(3).map((column) => column.padStart(12)).join('');
+
+      const lines = [
+        `${organization.name} - Billing statement`,
+        '',
+        `Billed to: ${name} <${user.email}>`,
+        `Period:    ${statement.period.from ?? 'All time'} to ${statement.period.to ?? toSqlTimestamp(new Date())} (UTC)`,
+        '',
+        row('Date', 'Description', 'Status', 'Amount', 'Refunded'),
+        '-'.repeat(86),
+        ...statement.billingRecords.map((record) =>
+          row(
+            record.created_at,
+            describeRecord(record),
+            record.status,
+            `${formatAmount(record.amount, record.currency)} ${record.currency}`,
+            `${formatAmount(record.refunded_amount, record.currency)} ${record.currency}`
+          )
+        ),
+        ...(statement.billingRecords.length === 0 ? ['No payments in this period.'] : []),
+        '',
+        'Totals',
+        ...statement.totals.map(
+          (total) =>
+            `  ${total.currency}: charged ${formatAmount(total.charged, total.currency)}, ` +
+            `refunded ${formatAmount(total.refunded, total.currency)}, ` +
+            `net ${formatAmount(total.net, total.currency)}`
+        ),
+      ];
+
+      return c.body(renderTextPdf(lines), 200, {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${statementFilename(statement, 'pdf')}"`,
+      });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to export billing statement');
+    }
+  });
+
+export default billingRoutes;
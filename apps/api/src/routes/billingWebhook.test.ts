@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { BillingStatus, billingStatusTransitions, billingStatuses } from '../../../../packages/types/billing';
+
+function canMove(from: BillingStatus, to: BillingStatus): boolean {
+  return billingStatusTransitions[from].includes(to);
+}
+
+describe('billingStatusTransitions', () => {
+  it('only moves to known statuses', () => {
+    for (const targets of Object.values(billingStatusTransitions)) {
+      for (const status of targets) {
+        expect(billingStatuses).toContain(status);
+      }
+    }
+  });
+
+  it('reaches every status from pending', () => {
+    const reached = new Set<BillingStatus>(['pending']);
+    const queue: BillingStatus[] = ['pending'];
+    while (queue.length > 0) {
+      for (const next of billingStatusTransitions[queue.shift()!]) {
+        if (!reached.has(next)) {
+          reached.add(next);
+          queue.push(next);
+        }
+      }
+    }
+
+    expect([...reached].sort()).toEqual([...billingStatuses].sort());
+  });
+
+  it('settles a pending payment either way, and lets a failed one be retried', () => {
+    expect(canMove('pending', 'completed')).toBe(true);
+    expect(canMove('pending', 'failed')).toBe(true);
+    expect(canMove('failed', 'completed')).toBe(true);
+  });
+
+  it('refunds and disputes only money that was collected', () => {
+    for (const status of ['partially_refunded', 'refunded', 'disputed'] as const) {
+      expect(canMove('completed', status)).toBe(true);
+      expect(canMove('pending', status)).toBe(false);
+      expect(canMove('failed', status)).toBe(false);
+    }
+  });
+
+  it('allows further partial refunds', () => {
+    expect(canMove('partially_refunded', 'partially_refunded')).toBe(true);
+    expect(canMove('partially_refunded', 'refunded')).toBe(true);
+    expect(canMove('partially_refunded', 'completed')).toBe(false);
+  });
+
+  it('returns a won dispute to the status it had before', () => {
+    expect(canMove('disputed', 'completed')).toBe(true);
+    expect(canMove('disputed', 'partially_refunded')).toBe(true);
+    expect(canMove('disputed', 'dispute_lost')).toBe(true);
+    expect(canMove('disputed', 'refunded')).toBe(false);
+  });
+
+  it('never leaves a full refund or a lost dispute', () => {
+    expect(billingStatusTransitions.refunded).toEqual([]);
+    expect(billingStatusTransitions.dispute_lost).toEqual([]);
+  });
+});
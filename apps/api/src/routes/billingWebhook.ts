@@ -1,30 +1,115 @@
 import { Hono } from 'hono';
+import { BillingStatus, billingStatusTransitions } from '../../../../packages/types/billing';
+import { Plan, SubscriptionStatus, plans } from '../../../../packages/types/subscription';
+import { WebhookEventStatus, webhookEventStatuses } from '../../../../packages/types/webhookEvent';
+import { auditMiddleware, recordChange } from '../middleware/auditMiddleware';
+import { clerkMiddleware } from '../middleware/clerkMiddleware';
+import { permissionMiddleware, requireGlobalAdmin } from '../middleware/permissionMiddleware';
+import { apiError, handleRouteError } from '../utils/errors';
+import { timingSafeEqual } from '../utils/signatures';
+import { toSqlTimestamp } from '../utils/timestamps';
 
 type Bindings = {
   DB: D1Database;
+  CLERK_SECRET_KEY: string;
   STRIPE_WEBHOOK_SECRET: string;
+  // JSON object mapping Stripe price IDs to plans, e.g. {"price_123":"pro"}
+  STRIPE_PRICE_PLANS: string;
 };
 
+interface StripePaymentIntent {
+  id: string;
+  amount: number;
+  currency: string;
+  customer: string;
+  status: string;
+  metadata?: {
+    userId?: string;
+    organizationId?: string;
+  };
+}
+
+interface StripeSubscription {
+  id: string;
+  customer: string;
+  status: SubscriptionStatus;
+  cancel_at_period_end: boolean;
+  // Older API versions put the period on the subscription, newer ones on each item
+  current_period_end?: number;
+  items: {
+    data: { price: { id: string }; current_period_end?: number }[];
+  };
+  metadata?: {
+    organizationId?: string;
+  };
+}
+
+interface StripeCharge {
+  id: string;
+  payment_intent: string | null;
+  amount: number;
+  amount_refunded: number;
+  currency: string;
+}
+
+interface StripeDispute {
+  id: string;
+  charge: string;
+  payment_intent: string | null;
+  amount: number;
+  status: string;
+  reason?: string;
+}
+
+interface StripeInvoice {
+  id: string;
+  customer: string;
+  subscription: string | null;
+  payment_intent: string | null;
+  amount_due: number;
+  amount_paid: number;
+  currency: string;
+  metadata?: {
+    userId?: string;
+    organizationId?: string;
+  };
+}
+
 interface StripeEvent {
   id: string;
   type: string;
   data: {
-    object: {
-      id: string;
-      amount: number;
-      currency: string;
-      customer: string;
-      status: string;
-      metadata?: {
-        userId?: string;
-      };
-    };
+    object: StripePaymentIntent | StripeSubscription | StripeCharge | StripeDispute | StripeInvoice;
   };
 }
 
+interface BillingRecordRow {
+  id: string;
+  status: BillingStatus;
+  amount: number;
+  refunded_amount: number;
+}
+
+interface PaymentOutcome {
+  organizationId: string | null;
+  userId: string | null;
+  amount: number;
+  currency: string;
+  status: 'completed' | 'failed';
+  stripePaymentId: string | null;
+  stripeInvoiceId: string | null;
+}
+
+// Signatures older than this are rejected to prevent replay attacks
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+// An event left in 'processing' this long is assumed to have crashed and may be retried
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
 /**
  * Verifies the Stripe webhook signature using HMAC-SHA256.
  * This ensures the webhook was sent by Stripe and hasn't been tampered with.
+ * While a signing secret is being rolled, Stripe sends one v1 signature per
+ * active secret; any of them matching is enough.
  */
 async function verifyStripeSignature(
   payload: string,
@@ -32,24 +117,22 @@ async function verifyStripeSignature(
   secret: string
 ): Promise<boolean> {
   // Parse the signature header
-  const elements = signature.split(',');
-  const signatureMap: Record<string, string> = {};
-  
-  for (const element of elements) {
-    const [key, value] = element.split('=');
-    signatureMap[key] = value;
-  }
+  let timestamp: string | undefined;
+  const v1Signatures: string[] = [];
 
-  const timestamp = signatureMap['t'];
-  const v1Signature = signatureMap['v1'];
+  for (const element of signature.split(',')) {
+    const [key, value] = element.trim().split('=');
+    if (key === 't') timestamp = value;
+    if (key === 'v1' && value) v1Signatures.push(value);
+  }
 
-  if (!timestamp || !v1Signature) {
+  if (!timestamp || v1Signatures.length === 0) {
     return false;
   }
 
-  // Check timestamp to prevent replay attacks (5 minute tolerance)
+  // Check timestamp to prevent replay attacks
   const timestampAge = Math.floor(Date.now() / 1000) - parseInt(timestamp, 10);
-  if (timestampAge > 300) {
+  if (!Number.isFinite(timestampAge) || Math.abs(timestampAge) > SIGNATURE_TOLERANCE_SECONDS) {
     return false;
   }
 
@@ -72,110 +155,480 @@ async function verifyStripeSignature(
     .map((b) => b.toString(16).padStart(2, '0'))
     .join('');
 
-  // Use timing-safe comparison
-  return expectedSignature === v1Signature;
+  // Check every candidate so timing does not reveal which one matched
+  let matched = false;
+  for (const candidate of v1Signatures) {
+    matched = timingSafeEqual(expectedSignature, candidate) || matched;
+  }
+  return matched;
 }
 
-const billingWebhookRoutes = new Hono<{ Bindings: Bindings }>();
+/**
+ * Works out which organization a payment belongs to: the organizationId set in
+ * the Stripe metadata if the user belongs to it, otherwise the user's only
+ * membership. Returns null when it is ambiguous.
+ */
+async function resolvePaymentOrganization(
+  db: D1Database,
+  userId: string,
+  requested: string | undefined
+): Promise<string | null> {
+  const { results } = await db.prepare(
+    'SELECT organization_id FROM organization_members WHERE user_id = ?'
+  ).bind(userId).all<{ organization_id: string }>();
+
+  if (requested && results.some((m) => m.organization_id === requested)) {
+    return requested;
+  }
+  return results.length === 1 ? results[0].organization_id : null;
+}
 
-// Stripe webhook handler
-billingWebhookRoutes.post('/', async (c) => {
+/**
+ * Maps a Stripe price ID to a plan using STRIPE_PRICE_PLANS. Unknown prices
+ * map to the free plan so a misconfigured price never unlocks paid features.
+ */
+function planForPrice(priceId: string | undefined, pricePlans: string | undefined): Plan {
+  let mapping: Record<string, string> = {};
   try {
-    const signature = c.req.header('stripe-signature');
-    
-    if (!signature) {
-      return c.json({ error: 'Missing Stripe signature' }, 400);
-    }
+    mapping = JSON.parse(pricePlans || '{}');
+  } catch {
+    console.error('STRIPE_PRICE_PLANS is not valid JSON');
+  }
+
+  const plan = priceId ? mapping[priceId] : undefined;
+  if (!plan || !plans.includes(plan as Plan)) {
+    console.warn(`No plan configured for Stripe price ${priceId}`);
+    return 'free';
+  }
+  return plan as Plan;
+}
+
+/**
+ * Creates or updates our copy of a Stripe subscription. The organization comes
+ * from the subscription's metadata, or from an earlier subscription of the
+ * same Stripe customer.
+ */
+async function syncSubscription(db: D1Database, subscription: StripeSubscription, pricePlans: string | undefined) {
+  let organizationId: string | null = null;
+
+  const requested = subscription.metadata?.organizationId;
+  if (requested) {
+    const org = await db.prepare(
+      'SELECT id FROM organizations WHERE id = ?'
+    ).bind(requested).first<{ id: string }>();
+    organizationId = org ? org.id : null;
+  }
+  if (!organizationId) {
+    const previous = await db.prepare(
+      'SELECT organization_id FROM subscriptions WHERE id = ? OR stripe_customer_id = ? LIMIT 1'
+    ).bind(subscription.id, subscription.customer).first<{ organization_id: string }>();
+    organizationId = previous ? previous.organization_id : null;
+  }
+  if (!organizationId) {
+    console.error(`Cannot tell which organization subscription ${subscription.id} belongs to`);
+    return;
+  }
+
+  const item = subscription.items.data[0];
+  const periodEnd = subscription.current_period_end ?? item?.current_period_end;
+
+  await db.prepare(
+    `INSERT INTO subscriptions
+       (id, organization_id, stripe_customer_id, price_id, plan, status, current_period_end, cancel_at_period_end)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET
+       price_id = excluded.price_id,
+       plan = excluded.plan,
+       status = excluded.status,
+       current_period_end = excluded.current_period_end,
+       cancel_at_period_end = excluded.cancel_at_period_end,
+       updated_at = CURRENT_TIMESTAMP`
+  ).bind(
+    subscription.id,
+    organizationId,
+    subscription.customer,
+    item?.price.id ?? null,
+    planForPrice(item?.price.id, pricePlans),
+    subscription.status,
+    periodEnd ? toSqlTimestamp(new Date(periodEnd * 1000)) : null,
+    subscription.cancel_at_period_end ? 1 : 0
+  ).run();
+}
+
+/**
+ * Works out which organization a subscription invoice belongs to, from the
+ * subscription we already know about or the invoice's own metadata.
+ */
+async function resolveInvoiceOrganization(db: D1Database, invoice: StripeInvoice): Promise<string | null> {
+  const subscription = await db.prepare(
+    `SELECT organization_id FROM subscriptions
+     WHERE id = ? OR stripe_customer_id = ?
+     ORDER BY CASE WHEN id = ? THEN 0 ELSE 1 END LIMIT 1`
+  ).bind(invoice.subscription, invoice.customer, invoice.subscription).first<{ organization_id: string }>();
+
+  return subscription ? subscription.organization_id : invoice.metadata?.organizationId ?? null;
+}
+
+/**
+ * Finds the billing record of the payment a charge, refund or dispute refers
+ * to. Throws when there is none yet, so the event is logged as failed and can
+ * be replayed once the payment itself has been recorded.
+ */
+async function findPaymentRecord(db: D1Database, paymentIntentId: string | null): Promise<BillingRecordRow> {
+  const record = paymentIntentId
+    ? await db.prepare(
+        'SELECT id, status, amount, refunded_amount FROM billing_records WHERE stripe_payment_id = ?'
+      ).bind(paymentIntentId).first<BillingRecordRow>()
+    : null;
+
+  if (!record) {
+    throw new Error(`No billing record for payment ${paymentIntentId}`);
+  }
+  return record;
+}
+
+/**
+ * Moves a billing record to a new status and appends the change to its
+ * history. A transition that is not allowed is logged and skipped, since
+ * retrying the event would not make it valid.
+ */
+async function transitionBillingRecord(
+  db: D1Database,
+  record: BillingRecordRow,
+  status: BillingStatus,
+  eventId: string,
+  change: { refundedAmount?: number; amount?: number; note?: string } = {}
+) {
+  if (!billingStatusTransitions[record.status].includes(status)) {
+    console.warn(`Ignoring billing record ${record.id} change from ${record.status} to ${status}`);
+    return;
+  }
+
+  await db.batch([
+    db.prepare(
+      'UPDATE billing_records SET status = ?, refunded_amount = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?'
+    ).bind(status, change.refundedAmount ?? record.refunded_amount, record.id),
+    db.prepare(
+      `INSERT INTO billing_record_history (id, billing_record_id, status, amount, stripe_event_id, note)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    ).bind(crypto.randomUUID(), record.id, status, change.amount ?? null, eventId, change.note ?? null),
+  ]);
+}
+
+/**
+ * Records the outcome of a payment attempt. A payment keeps one record for
+ * all its attempts, and the invoice and payment intent for the same charge
+ * share it, so nothing is counted twice. The record follows an invoice's
+ * latest payment intent, which is the one later refunds and disputes name.
+ */
+async function recordPayment(db: D1Database, eventId: string, payment: PaymentOutcome) {
+  const existing = await db.prepare(
+    `SELECT id, status, amount, refunded_amount FROM billing_records
+     WHERE stripe_payment_id = ? OR stripe_invoice_id = ? LIMIT 1`
+  ).bind(payment.stripePaymentId, payment.stripeInvoiceId).first<BillingRecordRow>();
 
-    const rawBody = await c.req.text();
-    
-    // Verify the webhook signature
-    const isValid = await verifyStripeSignature(
-      rawBody,
-      signature,
-      c.env.STRIPE_WEBHOOK_SECRET
-    );
-
-    if (!isValid) {
-      console.error('Invalid Stripe webhook signature');
-      return c.json({ error: 'Invalid signature' }, 401);
+  if (existing) {
+    await db.prepare(
+      `UPDATE billing_records SET
+         stripe_payment_id = COALESCE(?, stripe_payment_id),
+         stripe_invoice_id = COALESCE(?, stripe_invoice_id)
+       WHERE id = ?`
+    ).bind(payment.stripePaymentId, payment.stripeInvoiceId, existing.id).run();
+
+    if (existing.status !== payment.status) {
+      await transitionBillingRecord(db, existing, payment.status, eventId, { amount: payment.amount });
     }
-    
-    const event: StripeEvent = JSON.parse(rawBody);
-
-    switch (event.type) {
-      case 'payment_intent.succeeded': {
-        const paymentIntent = event.data.object;
-        const userId = paymentIntent.metadata?.userId;
-
-        if (userId) {
-          const id = crypto.randomUUID();
-          await c.env.DB.prepare(
-            `INSERT INTO billing_records (id, user_id, amount, currency, status, stripe_payment_id) 
-             VALUES (?, ?, ?, ?, 'completed', ?)`
-          ).bind(
-            id,
-            userId,
-            paymentIntent.amount,
-            paymentIntent.currency,
-            paymentIntent.id
-          ).run();
-        }
-        break;
+    return;
+  }
+
+  const id = crypto.randomUUID();
+
+  await db.batch([
+    db.prepare(
+      `INSERT INTO billing_records
+         (id, organization_id, user_id, amount, currency, status, stripe_payment_id, stripe_invoice_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      id,
+      payment.organizationId,
+      payment.userId,
+      payment.amount,
+      payment.currency,
+      payment.status,
+      payment.stripePaymentId,
+      payment.stripeInvoiceId
+    ),
+    db.prepare(
+      `INSERT INTO billing_record_history (id, billing_record_id, status, amount, stripe_event_id)
+       VALUES (?, ?, ?, ?, ?)`
+    ).bind(crypto.randomUUID(), id, payment.status, payment.amount, eventId),
+  ]);
+}
+
+/**
+ * Applies one Stripe event to our tables. Throws if the event could not be
+ * applied so the caller can record the failure.
+ */
+async function processStripeEvent(db: D1Database, pricePlans: string | undefined, event: StripeEvent) {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+    case 'payment_intent.payment_failed': {
+      const paymentIntent = event.data.object as StripePaymentIntent;
+      const userId = paymentIntent.metadata?.userId;
+
+      if (userId) {
+        await recordPayment(db, event.id, {
+          organizationId: await resolvePaymentOrganization(db, userId, paymentIntent.metadata?.organizationId),
+          userId,
+          amount: paymentIntent.amount,
+          currency: paymentIntent.currency,
+          status: event.type === 'payment_intent.succeeded' ? 'completed' : 'failed',
+          stripePaymentId: paymentIntent.id,
+          stripeInvoiceId: null,
+        });
       }
+      break;
+    }
 
-      case 'payment_intent.payment_failed': {
-        const paymentIntent = event.data.object;
-        const userId = paymentIntent.metadata?.userId;
-
-        if (userId) {
-          const id = crypto.randomUUID();
-          await c.env.DB.prepare(
-            `INSERT INTO billing_records (id, user_id, amount, currency, status, stripe_payment_id) 
-             VALUES (?, ?, ?, ?, 'failed', ?)`
-          ).bind(
-            id,
-            userId,
-            paymentIntent.amount,
-            paymentIntent.currency,
-            paymentIntent.id
-          ).run();
-        }
+    case 'invoice.paid':
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as StripeInvoice;
+      const paid = event.type === 'invoice.paid';
+
+      // Trials and fully discounted invoices move no money
+      if ((paid ? invoice.amount_paid : invoice.amount_due) === 0) {
         break;
       }
 
-      case 'customer.subscription.created':
-      case 'customer.subscription.updated':
-      case 'customer.subscription.deleted': {
-        // Handle subscription events
-        console.log(`Subscription event: ${event.type}`);
+      await recordPayment(db, event.id, {
+        organizationId: await resolveInvoiceOrganization(db, invoice),
+        userId: invoice.metadata?.userId ?? null,
+        amount: paid ? invoice.amount_paid : invoice.amount_due,
+        currency: invoice.currency,
+        status: paid ? 'completed' : 'failed',
+        stripePaymentId: invoice.payment_intent,
+        stripeInvoiceId: invoice.id,
+      });
+      break;
+    }
+
+    case 'charge.refunded': {
+      const charge = event.data.object as StripeCharge;
+      const record = await findPaymentRecord(db, charge.payment_intent);
+
+      // amount_refunded is cumulative, so repeated partial refunds add up correctly
+      await transitionBillingRecord(
+        db,
+        record,
+        charge.amount_refunded >= record.amount ? 'refunded' : 'partially_refunded',
+        event.id,
+        { refundedAmount: charge.amount_refunded, amount: charge.amount_refunded }
+      );
+      break;
+    }
+
+    case 'charge.dispute.created': {
+      const dispute = event.data.object as StripeDispute;
+      const record = await findPaymentRecord(db, dispute.payment_intent);
+
+      await transitionBillingRecord(db, record, 'disputed', event.id, {
+        amount: dispute.amount,
+        note: dispute.reason,
+      });
+      break;
+    }
+
+    case 'charge.dispute.closed': {
+      const dispute = event.data.object as StripeDispute;
+      const record = await findPaymentRecord(db, dispute.payment_intent);
+
+      if (dispute.status === 'lost') {
+        await transitionBillingRecord(db, record, 'dispute_lost', event.id, { amount: dispute.amount });
         break;
       }
 
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
+      // Won, or an inquiry closed without a chargeback: back to where it was
+      const previous = await db.prepare(
+        `SELECT status FROM billing_record_history
+         WHERE billing_record_id = ? AND status != 'disputed'
+         ORDER BY created_at DESC, rowid DESC LIMIT 1`
+      ).bind(record.id).first<{ status: BillingStatus }>();
+
+      await transitionBillingRecord(db, record, previous?.status ?? 'completed', event.id, {
+        note: `dispute ${dispute.status}`,
+      });
+      break;
     }
 
-    return c.json({ received: true });
-  } catch (error) {
-    console.error('Webhook error:', error);
-    return c.json({ error: 'Webhook processing failed' }, 500);
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted': {
+      // A deleted subscription arrives with status 'canceled', which drops the organization to free
+      await syncSubscription(db, event.data.object as StripeSubscription, pricePlans);
+      break;
+    }
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
   }
-});
+}
 
-// Get billing history for a user
-billingWebhookRoutes.get('/history/:userId', async (c) => {
-  const userId = c.req.param('userId');
+/**
+ * Records a received event and claims it for processing. Returns false when
+ * the event was already processed, or is being processed by another delivery.
+ * A failed event, or one stuck in processing, is claimed again.
+ */
+async function claimEvent(db: D1Database, eventId: string, type: string, payload: string): Promise<boolean> {
+  const { meta } = await db.prepare(
+    `INSERT INTO webhook_events (id, type, payload, status, attempts) VALUES (?, ?, ?, 'processing', 1)
+     ON CONFLICT (id) DO NOTHING`
+  ).bind(eventId, type, payload).run();
 
-  try {
-    const { results } = await c.env.DB.prepare(
-      'SELECT * FROM billing_records WHERE user_id = ? ORDER BY created_at DESC'
-    ).bind(userId).all();
+  if (meta.changes > 0) {
+    return true;
+  }
+
+  const { meta: retried } = await db.prepare(
+    `UPDATE webhook_events SET status = 'processing', attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND (status = 'failed' OR (status = 'processing' AND updated_at < ?))`
+  ).bind(eventId, toSqlTimestamp(new Date(Date.now() - STALE_PROCESSING_MS))).run();
+
+  return retried.changes > 0;
+}
 
-    return c.json({ billingRecords: results });
+/**
+ * Processes a claimed event and records the outcome on its log entry.
+ * Returns whether processing succeeded.
+ */
+async function runEvent(env: Bindings, event: StripeEvent): Promise<boolean> {
+  try {
+    await processStripeEvent(env.DB, env.STRIPE_PRICE_PLANS, event);
+    await env.DB.prepare(
+      `UPDATE webhook_events SET status = 'processed', last_error = NULL,
+         processed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`
+    ).bind(event.id).run();
+    return true;
   } catch (error) {
-    return c.json({ error: 'Failed to fetch billing history' }, 500);
+    console.error(`Failed to process Stripe event ${event.id}:`, error);
+    await env.DB.prepare(
+      `UPDATE webhook_events SET status = 'failed', last_error = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`
+    ).bind(error instanceof Error ? error.message : String(error), event.id).run();
+    return false;
   }
-});
+}
+
+const billingWebhookRoutes = new Hono<{ Bindings: Bindings }>()
+  // Stripe webhook handler
+  .post('/', async (c) => {
+    try {
+      const signature = c.req.header('stripe-signature');
+      
+      if (!signature) {
+        return apiError(c, 400, 'Missing Stripe signature');
+      }
+
+      const rawBody = await c.req.text();
+      
+      // Verify the webhook signature
+      const isValid = await verifyStripeSignature(
+        rawBody,
+        signature,
+        c.env.STRIPE_WEBHOOK_SECRET
+      );
+
+      if (!isValid) {
+        console.error('Invalid Stripe webhook signature');
+        return apiError(c, 401, 'Invalid signature');
+      }
+      
+      const event: StripeEvent = JSON.parse(rawBody);
+
+      // Stripe retries deliveries; only the delivery that claims the event applies it
+      if (!(await claimEvent(c.env.DB, event.id, event.type, rawBody))) {
+        return c.json({ received: true, duplicate: true });
+      }
+
+      if (!(await runEvent(c.env, event))) {
+        return apiError(c, 500, 'Webhook processing failed');
+      }
+
+      return c.json({ received: true });
+    } catch (error) {
+      console.error('Webhook error:', error);
+      return apiError(c, 500, 'Webhook processing failed');
+    }
+  })
+
+  // List logged webhook events, failed ones by default
+  .get(
+    '/events',
+    clerkMiddleware(),
+    permissionMiddleware(),
+    requireGlobalAdmin(),
+    async (c) => {
+      const status = c.req.query('status') || 'failed';
+
+      if (!webhookEventStatuses.includes(status as WebhookEventStatus)) {
+        return apiError(c, 400, `status must be one of ${webhookEventStatuses.join(', ')}`);
+      }
+
+      try {
+        const { results } = await c.env.DB.prepare(
+          `SELECT id, type, status, attempts, last_error, received_at, processed_at, updated_at
+           FROM webhook_events WHERE status = ? ORDER BY received_at DESC LIMIT 100`
+        ).bind(status).all();
+
+        return c.json({ events: results });
+      } catch (error) {
+        return handleRouteError(c, error, 'Failed to fetch webhook events');
+      }
+    }
+  )
+
+  // Re-run a failed webhook event from its stored payload
+  .post(
+    '/events/:eventId/replay',
+    clerkMiddleware(),
+    permissionMiddleware(),
+    requireGlobalAdmin(),
+    auditMiddleware(),
+    async (c) => {
+      const eventId = c.req.param('eventId');
+
+      try {
+        const stored = await c.env.DB.prepare(
+          'SELECT type, payload, status FROM webhook_events WHERE id = ?'
+        ).bind(eventId).first<{ type: string; payload: string; status: WebhookEventStatus }>();
+
+        if (!stored) {
+          return apiError(c, 404, 'Webhook event not found');
+        }
+
+        if (!(await claimEvent(c.env.DB, eventId, stored.type, stored.payload))) {
+          return apiError(c, 409, 'Only failed events can be replayed');
+        }
+
+        const processed = await runEvent(c.env, JSON.parse(stored.payload));
+
+        const event = await c.env.DB.prepare(
+          `SELECT id, type, status, attempts, last_error, received_at, processed_at, updated_at
+           FROM webhook_events WHERE id = ?`
+        ).bind(eventId).first<{ status: WebhookEventStatus }>();
+
+        recordChange(c, {
+          action: 'webhook_event.replay',
+          entityType: 'webhook_event',
+          entityId: eventId,
+          before: { status: stored.status },
+          after: { status: event?.status },
+        });
+        return c.json({ event }, processed ? 200 : 500);
+      } catch (error) {
+        return handleRouteError(c, error, 'Failed to replay webhook event');
+      }
+    }
+  );
 
 export default billingWebhookRoutes;
@@ -0,0 +1,176 @@
+import { Hono } from 'hono';
+import { AuditChange, auditMiddleware, recordChange } from '../middleware/auditMiddleware';
+import { apiError } from '../utils/errors';
+import { timingSafeEqual } from '../utils/signatures';
+import { removeUser, upsertUser } from '../utils/userSync';
+
+type Bindings = {
+  DB: D1Database;
+  // Signing secret of the Clerk webhook endpoint, "whsec_" followed by base64
+  CLERK_WEBHOOK_SECRET: string;
+};
+
+interface ClerkEmailAddress {
+  id: string;
+  email_address: string;
+}
+
+interface ClerkUserData {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  primary_email_address_id: string | null;
+  email_addresses: ClerkEmailAddress[];
+  updated_at: number;
+}
+
+interface ClerkEvent {
+  type: string;
+  data: ClerkUserData | { id: string; deleted: boolean };
+}
+
+// Signatures older than this are rejected to prevent replay attacks
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Verifies the Svix signature Clerk puts on its webhooks: an HMAC-SHA256 of
+ * "<svix-id>.<svix-timestamp>.<body>" keyed with the base64 part of the
+ * secret. The svix-signature header lists one "v1,<base64>" entry per active
+ * secret while a secret is being rolled; any of them matching is enough.
+ */
+async function verifySvixSignature(
+  payload: string,
+  headers: { id: string; timestamp: string; signature: string },
+  secret: string
+): Promise<boolean> {
+  const timestampAge = Math.floor(Date.now() / 1000) - parseInt(headers.timestamp, 10);
+  if (!Number.isFinite(timestampAge) || Math.abs(timestampAge) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const candidates = headers.signature
+    .split(' ')
+    .map((entry) => entry.split(','))
+    .filter(([version, value]) => version === 'v1' && value)
+    .map(([, value]) => value);
+
+  if (candidates.length === 0) {
+    return false;
+  }
+
+  const keyData = Uint8Array.from(atob(secret.replace(/^whsec_/, '')), (char) => char.charCodeAt(0));
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    keyData,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  const signatureBuffer = await crypto.subtle.sign(
+    'HMAC',
+    cryptoKey,
+    new TextEncoder().encode(`${headers.id}.${headers.timestamp}.${payload}`)
+  );
+  const expectedSignature = btoa(String.fromCharCode(...new Uint8Array(signatureBuffer)));
+
+  // Check every candidate so timing does not reveal which one matched
+  let matched = false;
+  for (const candidate of candidates) {
+    matched = timingSafeEqual(expectedSignature, candidate) || matched;
+  }
+  return matched;
+}
+
+/**
+ * Applies one Clerk event to the users table. Upserts are idempotent, so Svix
+ * retrying a delivery needs no bookkeeping of its own. Returns the change to
+ * audit, or null when the event changed nothing.
+ */
+async function processClerkEvent(db: D1Database, event: ClerkEvent): Promise<AuditChange | null> {
+  const findUser = () => db.prepare('SELECT * FROM users WHERE id = ?').bind(event.data.id).first();
+
+  switch (event.type) {
+    case 'user.created':
+    case 'user.updated': {
+      const data = event.data as ClerkUserData;
+      const email = data.email_addresses.find((address) => address.id === data.primary_email_address_id)
+        ?? data.email_addresses[0];
+
+      // Users who signed up with a phone number only have nothing to store yet
+      if (!email) {
+        console.warn(`Clerk user ${data.id} has no email address; not synced`);
+        break;
+      }
+
+      const before = await findUser();
+      const synced = await upsertUser(
+        db,
+        {
+          id: data.id,
+          email: email.email_address,
+          firstName: data.first_name ?? '',
+          lastName: data.last_name ?? '',
+        },
+        data.updated_at
+      );
+
+      if (!synced) {
+        console.error(`Clerk user ${data.id} has email ${email.email_address}, which belongs to another user; not synced`);
+        break;
+      }
+
+      return { action: `clerk.${event.type}`, entityType: 'user', entityId: data.id, before, after: await findUser() };
+    }
+
+    case 'user.deleted': {
+      const before = await findUser();
+      await removeUser(db, event.data.id);
+      return { action: 'clerk.user.deleted', entityType: 'user', entityId: event.data.id, before, after: await findUser() };
+    }
+
+    default:
+      console.log(`Unhandled Clerk event type: ${event.type}`);
+  }
+  return null;
+}
+
+const clerkWebhookRoutes = new Hono<{ Bindings: Bindings }>()
+  // Clerk (Svix) webhook handler; user changes are audited with no actor
+  .post('/', auditMiddleware(), async (c) => {
+    try {
+      const id = c.req.header('svix-id');
+      const timestamp = c.req.header('svix-timestamp');
+      const signature = c.req.header('svix-signature');
+
+      if (!id || !timestamp || !signature) {
+        return apiError(c, 400, 'Missing Svix signature');
+      }
+
+      const rawBody = await c.req.text();
+
+      const isValid = await verifySvixSignature(
+        rawBody,
+        { id, timestamp, signature },
+        c.env.CLERK_WEBHOOK_SECRET
+      );
+
+      if (!isValid) {
+        console.error('Invalid Clerk webhook signature');
+        return apiError(c, 401, 'Invalid signature');
+      }
+
+      const event: ClerkEvent = JSON.parse(rawBody);
+      const change = await processClerkEvent(c.env.DB, event);
+      if (change) {
+        recordChange(c, change);
+      }
+
+      return c.json({ received: true });
+    } catch (error) {
+      console.error('Clerk webhook error:', error);
+      return apiError(c, 500, 'Webhook processing failed');
+    }
+  });
+
+export default clerkWebhookRoutes;
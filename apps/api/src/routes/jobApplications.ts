@@ -0,0 +1,192 @@
+import { Hono } from 'hono';
+import {
+  ApplicationStage,
+  applicationStageTransitions,
+  applicationStages,
+  createJobApplicationSchema,
+  updateJobApplicationStageSchema,
+} from '../../../../packages/types/jobApplication';
+import { recordChange } from '../middleware/auditMiddleware';
+import { getOrganizationId } from '../middleware/organizationMiddleware';
+import { requirePermission, requireOwnership } from '../middleware/permissionMiddleware';
+import { validateBody, validateQuery } from '../middleware/validationMiddleware';
+import { apiError, handleRouteError } from '../utils/errors';
+
+type Bindings = {
+  DB: D1Database;
+};
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+// The applicant list may be narrowed to one stage
+function parseStageFilter(query: { stage?: string }) {
+  const stage = query.stage as ApplicationStage | undefined;
+  if (stage !== undefined && !applicationStages.includes(stage)) {
+    return { ok: false as const, error: `stage must be one of ${applicationStages.join(', ')}` };
+  }
+  return { ok: true as const, value: { stage } };
+}
+
+// Only the job's poster or an admin may review its applications
+const requireJobPoster = requireOwnership(async (c) => {
+  const job = await c.env.DB.prepare(
+    'SELECT posted_by FROM jobs WHERE id = ? AND organization_id = ?'
+  ).bind(c.req.param('id'), getOrganizationId(c)).first<{ posted_by: string }>();
+  return job ? job.posted_by : null;
+});
+
+// Mounted at /api/jobs ahead of jobBoardRoutes, so /applications is not taken for a job ID
+const jobApplicationRoutes = new Hono<{ Bindings: Bindings }>()
+  .use('*', requirePermission('canAccessJobBoard'))
+
+  // List the caller's own applications with the jobs they are for
+  .get('/applications', async (c) => {
+    try {
+      const { results } = await c.env.DB.prepare(
+        `SELECT job_applications.*, jobs.title AS job_title, jobs.status AS job_status
+         FROM job_applications JOIN jobs ON jobs.id = job_applications.job_id
+         WHERE job_applications.organization_id = ? AND job_applications.applicant_id = ?
+         ORDER BY job_applications.created_at DESC`
+      ).bind(getOrganizationId(c), c.get('user').id).all();
+
+      return c.json({ applications: results });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch applications');
+    }
+  })
+
+  // Apply to an active job
+  .post('/:id/applications', validateBody(createJobApplicationSchema), async (c) => {
+    const jobId = c.req.param('id');
+    const organizationId = getOrganizationId(c);
+
+    try {
+      const user = c.get('user');
+      const body = c.req.valid('json');
+
+      if (!isHttpUrl(body.profileUrl)) {
+        return apiError(c, 400, 'profileUrl must be an http(s) URL');
+      }
+
+      const job = await c.env.DB.prepare(
+        'SELECT id, posted_by, status FROM jobs WHERE id = ? AND organization_id = ?'
+      ).bind(jobId, organizationId).first<{ id: string; posted_by: string; status: string }>();
+
+      if (!job) {
+        return apiError(c, 404, 'Job not found');
+      }
+      if (job.status !== 'active') {
+        return apiError(c, 400, 'This job is not accepting applications');
+      }
+      if (job.posted_by === user.id) {
+        return apiError(c, 400, 'You cannot apply to your own job');
+      }
+
+      const existing = await c.env.DB.prepare(
+        'SELECT id FROM job_applications WHERE job_id = ? AND applicant_id = ?'
+      ).bind(jobId, user.id).first();
+
+      if (existing) {
+        return apiError(c, 409, 'You have already applied to this job');
+      }
+
+      const id = crypto.randomUUID();
+
+      await c.env.DB.prepare(
+        `INSERT INTO job_applications (id, organization_id, job_id, applicant_id, cover_note, profile_url)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      ).bind(id, organizationId, jobId, user.id, body.coverNote.trim(), body.profileUrl).run();
+
+      const application = await c.env.DB.prepare(
+        'SELECT * FROM job_applications WHERE id = ?'
+      ).bind(id).first();
+
+      recordChange(c, { action: 'job_application.create', entityType: 'job_application', entityId: id, after: application });
+      return c.json({ application }, 201);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to submit application');
+    }
+  })
+
+  // List a job's applicants, optionally in one stage
+  .get('/:id/applications', requireJobPoster, validateQuery(parseStageFilter), async (c) => {
+    const jobId = c.req.param('id');
+    const { stage } = c.req.valid('query');
+
+    try {
+      const conditions = ['job_applications.job_id = ?'];
+      const values: string[] = [jobId];
+
+      if (stage) {
+        conditions.push('job_applications.stage = ?');
+        values.push(stage);
+      }
+
+      const { results } = await c.env.DB.prepare(
+        `SELECT job_applications.*, users.email, users.first_name, users.last_name
+         FROM job_applications JOIN users ON users.id = job_applications.applicant_id
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY job_applications.created_at ASC`
+      ).bind(...values).all();
+
+      return c.json({ applications: results });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch applications');
+    }
+  })
+
+  // Move an application to its next stage
+  .patch('/:id/applications/:applicationId', requireJobPoster, validateBody(updateJobApplicationStageSchema), async (c) => {
+    const jobId = c.req.param('id');
+    const applicationId = c.req.param('applicationId');
+
+    try {
+      const body = c.req.valid('json');
+
+      const application = await c.env.DB.prepare(
+        'SELECT * FROM job_applications WHERE id = ? AND job_id = ?'
+      ).bind(applicationId, jobId).first<{ stage: ApplicationStage }>();
+
+      if (!application) {
+        return apiError(c, 404, 'Application not found');
+      }
+
+      if (!applicationStageTransitions[application.stage].includes(body.stage)) {
+        return apiError(c, 400, `Cannot move an application from ${application.stage} to ${body.stage}`);
+      }
+
+      // Guard on the current stage so two reviewers cannot both advance it
+      const { meta } = await c.env.DB.prepare(
+        `UPDATE job_applications SET stage = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ? AND stage = ?`
+      ).bind(body.stage, applicationId, application.stage).run();
+
+      if (meta.changes === 0) {
+        return apiError(c, 409, 'Application was updated by someone else; reload and try again');
+      }
+
+      const updated = await c.env.DB.prepare(
+        'SELECT * FROM job_applications WHERE id = ?'
+      ).bind(applicationId).first();
+
+      recordChange(c, {
+        action: 'job_application.stage_change',
+        entityType: 'job_application',
+        entityId: applicationId,
+        before: application,
+        after: updated,
+      });
+      return c.json({ application: updated });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to update application');
+    }
+  });
+
+export default jobApplicationRoutes;
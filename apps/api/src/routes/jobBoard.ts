@@ -1,159 +1,327 @@
 import { Hono } from 'hono';
+import {
+  JobStatus,
+  createJobSchema,
+  jobStatusTransitions,
+  publicJobStatuses,
+  updateJobSchema,
+} from '../../../../packages/types/job';
+import { recordChange } from '../middleware/auditMiddleware';
+import { getOrganizationId } from '../middleware/organizationMiddleware';
+import { isAdmin, requirePermission, requireOwnership } from '../middleware/permissionMiddleware';
+import { validateBody, validateQuery } from '../middleware/validationMiddleware';
+import { apiError, handleRouteError } from '../utils/errors';
+import { JobSort, encodeCursor, parseJobSearch } from '../utils/jobSearch';
+import { validateJob } from '../utils/jobValidation';
+import { toSqlTimestamp } from '../utils/timestamps';
 
 type Bindings = {
   DB: D1Database;
 };
 
-interface Job {
+interface JobRow {
   id: string;
-  title: string;
-  description: string;
-  location?: string;
-  salaryMin?: number;
-  salaryMax?: number;
-  postedBy: string;
-  status: 'active' | 'closed' | 'draft';
+  posted_by: string;
+  status: JobStatus;
+  publish_at: string | null;
+  expires_at: string | null;
 }
 
-interface CreateJobInput {
-  title: string;
-  description: string;
-  location?: string;
-  salaryMin?: number;
-  salaryMax?: number;
-}
-
-const jobBoardRoutes = new Hono<{ Bindings: Bindings }>();
-
-// Get all active jobs
-jobBoardRoutes.get('/', async (c) => {
-  try {
-    const status = c.req.query('status') || 'active';
-    
-    const { results } = await c.env.DB.prepare(
-      'SELECT * FROM jobs WHERE status = ? ORDER BY created_at DESC'
-    ).bind(status).all();
-
-    return c.json({ jobs: results });
-  } catch (error) {
-    return c.json({ error: 'Failed to fetch jobs' }, 500);
-  }
+// Only the poster or an admin may change a job
+const requirePoster = requireOwnership(async (c) => {
+  const job = await c.env.DB.prepare(
+    'SELECT posted_by FROM jobs WHERE id = ? AND organization_id = ?'
+  ).bind(c.req.param('id'), getOrganizationId(c)).first<{ posted_by: string }>();
+  return job ? job.posted_by : null;
 });
 
-// Get job by ID
-jobBoardRoutes.get('/:id', async (c) => {
-  const id = c.req.param('id');
+// Sort keys for the job list; every sort breaks ties on the job ID so cursors are stable
+const SORT_ORDER: Record<JobSort, { expression: string; direction: 'ASC' | 'DESC' }> = {
+  newest: { expression: 'COALESCE(jobs.publish_at, jobs.created_at)', direction: 'DESC' },
+  oldest: { expression: 'COALESCE(jobs.publish_at, jobs.created_at)', direction: 'ASC' },
+  salary_high: { expression: 'COALESCE(jobs.salary_max, jobs.salary_min, 0)', direction: 'DESC' },
+  salary_low: { expression: 'COALESCE(jobs.salary_min, jobs.salary_max, 0)', direction: 'ASC' },
+  relevance: { expression: 'bm25(jobs_fts)', direction: 'ASC' },
+};
 
-  try {
-    const job = await c.env.DB.prepare(
-      'SELECT * FROM jobs WHERE id = ?'
-    ).bind(id).first();
+const jobBoardRoutes = new Hono<{ Bindings: Bindings }>()
+  .use('*', requirePermission('canAccessJobBoard'))
 
-    if (!job) {
-      return c.json({ error: 'Job not found' }, 404);
-    }
+  // Search jobs by keyword, location, salary and posting date, a page at a time
+  .get('/', validateQuery(parseJobSearch), async (c) => {
+    const search = c.req.valid('query');
 
-    return c.json({ job });
-  } catch (error) {
-    return c.json({ error: 'Failed to fetch job' }, 500);
-  }
-});
+    try {
+      const conditions = ['jobs.organization_id = ?', 'jobs.status = ?'];
+      const values: (string | number)[] = [getOrganizationId(c), search.status];
 
-// Create a new job posting
-jobBoardRoutes.post('/', async (c) => {
-  try {
-    const user = c.get('user');
-    const body = await c.req.json<CreateJobInput>();
-    const id = crypto.randomUUID();
-
-    await c.env.DB.prepare(
-      `INSERT INTO jobs (id, title, description, location, salary_min, salary_max, posted_by, status) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, 'active')`
-    ).bind(
-      id,
-      body.title,
-      body.description,
-      body.location || null,
-      body.salaryMin || null,
-      body.salaryMax || null,
-      user.id
-    ).run();
-
-    const job = await c.env.DB.prepare(
-      'SELECT * FROM jobs WHERE id = ?'
-    ).bind(id).first();
-
-    return c.json({ job }, 201);
-  } catch (error) {
-    return c.json({ error: 'Failed to create job' }, 500);
-  }
-});
+      // Unpublished and archived jobs are listed only to their poster, or to admins
+      if (!publicJobStatuses.includes(search.status) && !isAdmin(c)) {
+        conditions.push('jobs.posted_by = ?');
+        values.push(c.get('user').id);
+      }
 
-// Update job
-jobBoardRoutes.patch('/:id', async (c) => {
-  const id = c.req.param('id');
+      if (search.match) {
+        conditions.push('jobs_fts MATCH ?');
+        values.push(search.match);
+      }
+      if (search.location) {
+        conditions.push("jobs.location LIKE ? ESCAPE '\\'");
+        values.push(`%${search.location.replace(/[\\%_]/g, '\\$&')}%`);
+      }
+      // A job matches a salary range if its own range overlaps it
+      if (search.salaryMin !== null) {
+        conditions.push('COALESCE(jobs.salary_max, jobs.salary_min) >= ?');
+        values.push(search.salaryMin);
+      }
+      if (search.salaryMax !== null) {
+        conditions.push('COALESCE(jobs.salary_min, jobs.salary_max) <= ?');
+        values.push(search.salaryMax);
+      }
+      if (search.postedAfter) {
+        conditions.push('COALESCE(jobs.publish_at, jobs.created_at) >= ?');
+        values.push(search.postedAfter);
+      }
+      if (search.postedBefore) {
+        conditions.push('COALESCE(jobs.publish_at, jobs.created_at) < ?');
+        values.push(search.postedBefore);
+      }
 
-  try {
-    const body = await c.req.json<Partial<CreateJobInput> & { status?: string }>();
-    const updates: string[] = [];
-    const values: (string | number | null)[] = [];
+      const from = search.match ? 'jobs JOIN jobs_fts ON jobs_fts.rowid = jobs.rowid' : 'jobs';
+      const where = conditions.join(' AND ');
+      const { expression, direction } = SORT_ORDER[search.sort];
 
-    if (body.title !== undefined) {
-      updates.push('title = ?');
-      values.push(body.title);
-    }
-    if (body.description !== undefined) {
-      updates.push('description = ?');
-      values.push(body.description);
-    }
-    if (body.location !== undefined) {
-      updates.push('location = ?');
-      values.push(body.location);
-    }
-    if (body.salaryMin !== undefined) {
-      updates.push('salary_min = ?');
-      values.push(body.salaryMin);
+      // Keyset pagination: resume strictly after the last row of the previous page
+      let after = '';
+      const pageValues: (string | number)[] = [];
+      if (search.cursor) {
+        const op = direction === 'ASC' ? '>' : '<';
+        after = `WHERE sort_value ${op} ? OR (sort_value = ? AND id ${op} ?)`;
+        pageValues.push(search.cursor.value, search.cursor.value, search.cursor.id);
+      }
+
+      const [total, page] = await c.env.DB.batch([
+        c.env.DB.prepare(
+          `SELECT COUNT(*) AS count FROM ${from} WHERE ${where}`
+        ).bind(...values),
+        c.env.DB.prepare(
+          `SELECT * FROM (SELECT jobs.*, ${expression} AS sort_value FROM ${from} WHERE ${where})
+           ${after}
+           ORDER BY sort_value ${direction}, id ${direction}
+           LIMIT ?`
+        ).bind(...values, ...pageValues, search.limit + 1),
+      ]);
+
+      const rows = page.results as ({ id: string; sort_value: string | number } & Record<string, unknown>)[];
+      const hasMore = rows.length > search.limit;
+      const jobs = rows.slice(0, search.limit).map(({ sort_value, ...job }) => job);
+      const last = rows[search.limit - 1];
+
+      return c.json({
+        jobs,
+        total: (total.results[0] as { count: number }).count,
+        nextCursor: hasMore ? encodeCursor({ value: last.sort_value, id: last.id }) : null,
+      });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch jobs');
     }
-    if (body.salaryMax !== undefined) {
-      updates.push('salary_max = ?');
-      values.push(body.salaryMax);
+  })
+
+  // Get job by ID
+  .get('/:id', async (c) => {
+    const id = c.req.param('id');
+
+    try {
+      const job = await c.env.DB.prepare(
+        'SELECT * FROM jobs WHERE id = ? AND organization_id = ?'
+      ).bind(id, getOrganizationId(c)).first<JobRow>();
+
+      const visible = job && (publicJobStatuses.includes(job.status) || job.posted_by === c.get('user').id || isAdmin(c));
+      if (!visible) {
+        return apiError(c, 404, 'Job not found');
+      }
+
+      return c.json({ job });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch job');
     }
-    if (body.status !== undefined) {
-      updates.push('status = ?');
-      values.push(body.status);
+  })
+
+  // Create a job posting: a draft, live now, or scheduled for its publishAt
+  .post('/', validateBody(createJobSchema), async (c) => {
+    try {
+      const user = c.get('user');
+      const body = c.req.valid('json');
+      const result = validateJob(body);
+
+      if (!result.ok) {
+        return apiError(c, 400, 'Request body is invalid', { code: 'validation_failed', details: [result.error] });
+      }
+
+      const input = result.value;
+      const now = toSqlTimestamp(new Date());
+      const status: JobStatus =
+        body.status === 'draft' ? 'draft' : input.publishAt && input.publishAt > now ? 'scheduled' : 'active';
+      const publishAt = status === 'active' ? now : input.publishAt ?? null;
+
+      if (input.expiresAt && input.expiresAt <= (publishAt && publishAt > now ? publishAt : now)) {
+        return apiError(c, 400, 'expiresAt must be in the future and after publishAt');
+      }
+
+      const id = crypto.randomUUID();
+
+      await c.env.DB.prepare(
+        `INSERT INTO jobs (id, organization_id, title, description, location, salary_min, salary_max, posted_by, status, publish_at, expires_at) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        id,
+        getOrganizationId(c),
+        input.title,
+        input.description,
+        input.location ?? null,
+        input.salaryMin ?? null,
+        input.salaryMax ?? null,
+        user.id,
+        status,
+        publishAt,
+        input.expiresAt ?? null
+      ).run();
+
+      const job = await c.env.DB.prepare(
+        'SELECT * FROM jobs WHERE id = ?'
+      ).bind(id).first();
+
+      recordChange(c, { action: 'job.create', entityType: 'job', entityId: id, after: job });
+      return c.json({ job }, 201);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to create job');
     }
+  })
+
+  // Update job, including moving it through its lifecycle
+  .patch('/:id', requirePoster, validateBody(updateJobSchema), async (c) => {
+    const id = c.req.param('id');
+
+    try {
+      const body = c.req.valid('json');
+      const result = validateJob(body);
+
+      if (!result.ok) {
+        return apiError(c, 400, 'Request body is invalid', { code: 'validation_failed', details: [result.error] });
+      }
+
+      const current = await c.env.DB.prepare(
+        'SELECT * FROM jobs WHERE id = ? AND organization_id = ?'
+      ).bind(id, getOrganizationId(c)).first<JobRow>();
+
+      if (!current) {
+        return apiError(c, 404, 'Job not found');
+      }
+      if (current.status === 'archived') {
+        return apiError(c, 400, 'Archived jobs cannot be changed');
+      }
+
+      let status: JobStatus = current.status;
+      if (body.status !== undefined && body.status !== current.status) {
+        if (!jobStatusTransitions[current.status].includes(body.status)) {
+          return apiError(c, 400, `Cannot move a job from ${current.status} to ${body.status}`);
+        }
+        status = body.status;
+      }
+
+      const input = result.value;
+      const now = toSqlTimestamp(new Date());
+      let publishAt = input.publishAt !== undefined ? input.publishAt : current.publish_at;
+      const expiresAt = input.expiresAt !== undefined ? input.expiresAt : current.expires_at;
+
+      // Publishing early goes live now; reopening a closed job keeps its original date
+      if (status === 'active' && (!publishAt || publishAt > now)) {
+        publishAt = now;
+      }
+      if (status === 'scheduled' && (!publishAt || publishAt <= now)) {
+        return apiError(c, 400, 'A scheduled job needs a publishAt in the future');
+      }
+      if (
+        (status === 'active' || status === 'scheduled') &&
+        expiresAt &&
+        expiresAt <= (publishAt && publishAt > now ? publishAt : now)
+      ) {
+        return apiError(c, 400, 'expiresAt must be in the future and after publishAt');
+      }
 
-    if (updates.length === 0) {
-      return c.json({ error: 'No fields to update' }, 400);
+      const columns: Record<string, string | number | null | undefined> = {
+        title: input.title,
+        description: input.description,
+        location: input.location,
+        salary_min: input.salaryMin,
+        salary_max: input.salaryMax,
+      };
+
+      const updates: string[] = [];
+      const values: (string | number | null)[] = [];
+      for (const [column, value] of Object.entries(columns)) {
+        if (value === undefined) continue;
+        updates.push(`${column} = ?`);
+        values.push(value);
+      }
+
+      const lifecycleChanged =
+        status !== current.status || publishAt !== current.publish_at || expiresAt !== current.expires_at;
+      if (updates.length === 0 && !lifecycleChanged) {
+        return apiError(c, 400, 'No fields to update');
+      }
+
+      updates.push('status = ?', 'publish_at = ?', 'expires_at = ?');
+      values.push(status, publishAt, expiresAt);
+      if (status === 'archived') {
+        updates.push('archived_at = CURRENT_TIMESTAMP');
+      }
+
+      updates.push('updated_at = CURRENT_TIMESTAMP');
+      values.push(id, getOrganizationId(c));
+
+      await c.env.DB.prepare(
+        `UPDATE jobs SET ${updates.join(', ')} WHERE id = ? AND organization_id = ?`
+      ).bind(...values).run();
+
+      const job = await c.env.DB.prepare(
+        'SELECT * FROM jobs WHERE id = ?'
+      ).bind(id).first();
+
+      recordChange(c, { action: 'job.update', entityType: 'job', entityId: id, before: current, after: job });
+      return c.json({ job });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to update job');
     }
+  })
 
-    updates.push('updated_at = CURRENT_TIMESTAMP');
-    values.push(id);
+  // Delete job: archives it, keeping the posting and its applications on record
+  .delete('/:id', requirePoster, async (c) => {
+    const id = c.req.param('id');
 
-    await c.env.DB.prepare(
-      `UPDATE jobs SET ${updates.join(', ')} WHERE id = ?`
-    ).bind(...values).run();
+    try {
+      const before = await c.env.DB.prepare(
+        'SELECT * FROM jobs WHERE id = ? AND organization_id = ?'
+      ).bind(id, getOrganizationId(c)).first();
 
-    const job = await c.env.DB.prepare(
-      'SELECT * FROM jobs WHERE id = ?'
-    ).bind(id).first();
+      const { meta } = await c.env.DB.prepare(
+        `UPDATE jobs SET status = 'archived', archived_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ? AND organization_id = ? AND status != 'archived'`
+      ).bind(id, getOrganizationId(c)).run();
 
-    return c.json({ job });
-  } catch (error) {
-    return c.json({ error: 'Failed to update job' }, 500);
-  }
-});
+      if (meta.changes === 0) {
+        return apiError(c, 400, 'Job is already archived');
+      }
 
-// Delete job
-jobBoardRoutes.delete('/:id', async (c) => {
-  const id = c.req.param('id');
+      const job = await c.env.DB.prepare(
+        'SELECT * FROM jobs WHERE id = ?'
+      ).bind(id).first();
 
-  try {
-    await c.env.DB.prepare('DELETE FROM jobs WHERE id = ?').bind(id).run();
-    return c.json({ message: 'Job deleted successfully' });
-  } catch (error) {
-    return c.json({ error: 'Failed to delete job' }, 500);
-  }
-});
+      recordChange(c, { action: 'job.archive', entityType: 'job', entityId: id, before, after: job });
+      return c.json({ message: 'Job archived successfully' });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to archive job');
+    }
+  });
 
 export default jobBoardRoutes;
@@ -0,0 +1,286 @@
+import { Hono } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { HTTPException } from 'hono/http-exception';
+import {
+  OrganizationRole,
+  addOrganizationMemberSchema,
+  createOrganizationSchema,
+  updateOrganizationMemberSchema,
+} from '../../../../packages/types/organization';
+import { planEntitlements } from '../../../../packages/types/subscription';
+import { recordChange } from '../middleware/auditMiddleware';
+import { assertAthleteCapacity, getOrganizationPlan } from '../middleware/entitlementMiddleware';
+import { requireGlobalAdmin } from '../middleware/permissionMiddleware';
+import { validateBody } from '../middleware/validationMiddleware';
+import { apiError, handleRouteError } from '../utils/errors';
+
+type Bindings = {
+  DB: D1Database;
+};
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// Membership is managed by the organization's own admins or a global admin
+const requireOrgAdmin = createMiddleware<{ Bindings: Bindings }>(async (c, next) => {
+  const orgId = c.req.param('orgId');
+
+  const org = await c.env.DB.prepare(
+    'SELECT id FROM organizations WHERE id = ?'
+  ).bind(orgId).first();
+  if (!org) {
+    throw new HTTPException(404, { message: 'Not Found: organization does not exist' });
+  }
+
+  if (c.get('apiKey')) {
+    throw new HTTPException(403, { message: 'Forbidden: API keys cannot manage organization members' });
+  }
+
+  if (c.get('role') !== 'admin') {
+    const member = await c.env.DB.prepare(
+      'SELECT role FROM organization_members WHERE organization_id = ? AND user_id = ?'
+    ).bind(orgId, c.get('user').id).first<{ role: OrganizationRole }>();
+    if (member?.role !== 'org_admin') {
+      throw new HTTPException(403, { message: 'Forbidden: only an organization admin may manage its members' });
+    }
+  }
+  await next();
+});
+
+/**
+ * Whether the given org_admin is the organization's only one, whom it cannot
+ * lose without being left to global admins to manage.
+ */
+async function isLastOrgAdmin(db: D1Database, orgId: string, role: OrganizationRole): Promise<boolean> {
+  if (role !== 'org_admin') return false;
+  const admins = await db.prepare(
+    "SELECT COUNT(*) AS count FROM organization_members WHERE organization_id = ? AND role = 'org_admin'"
+  ).bind(orgId).first<number>('count');
+  return admins === 1;
+}
+
+const organizationRoutes = new Hono<{ Bindings: Bindings }>()
+  // List organizations: global admins see all, everyone else their memberships
+  .get('/', async (c) => {
+    try {
+      const { results } = c.get('role') === 'admin'
+        ? await c.env.DB.prepare(
+            'SELECT * FROM organizations ORDER BY name ASC'
+          ).all()
+        : await c.env.DB.prepare(
+            `SELECT organizations.*, organization_members.role AS member_role FROM organizations
+             JOIN organization_members ON organization_members.organization_id = organizations.id
+             WHERE organization_members.user_id = ?
+             ORDER BY organizations.name ASC`
+          ).bind(c.get('user').id).all();
+
+      return c.json({ organizations: results });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch organizations');
+    }
+  })
+
+  // Create an organization; only global admins may
+  .post('/', requireGlobalAdmin(), validateBody(createOrganizationSchema), async (c) => {
+    try {
+      const body = c.req.valid('json');
+
+      if (!SLUG_PATTERN.test(body.slug)) {
+        return apiError(c, 400, 'Request body is invalid', {
+          code: 'validation_failed',
+          details: [{ field: 'slug', message: 'must be lowercase letters, digits and hyphens' }],
+        });
+      }
+
+      const existing = await c.env.DB.prepare(
+        'SELECT id FROM organizations WHERE slug = ? OR (clerk_org_id IS NOT NULL AND clerk_org_id = ?)'
+      ).bind(body.slug, body.clerkOrgId ?? null).first();
+
+      if (existing) {
+        return apiError(c, 409, 'An organization with this slug or Clerk organization already exists');
+      }
+
+      const id = crypto.randomUUID();
+
+      await c.env.DB.prepare(
+        'INSERT INTO organizations (id, name, slug, clerk_org_id) VALUES (?, ?, ?, ?)'
+      ).bind(id, body.name, body.slug, body.clerkOrgId ?? null).run();
+
+      const organization = await c.env.DB.prepare(
+        'SELECT * FROM organizations WHERE id = ?'
+      ).bind(id).first();
+
+      recordChange(c, {
+        action: 'organization.create',
+        entityType: 'organization',
+        entityId: id,
+        after: organization,
+        organizationId: id,
+      });
+      return c.json({ organization }, 201);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to create organization');
+    }
+  })
+
+  // List an organization's members
+  .get('/:orgId/members', requireOrgAdmin, async (c) => {
+    const orgId = c.req.param('orgId');
+
+    try {
+      const { results } = await c.env.DB.prepare(
+        `SELECT users.id, users.email, users.first_name, users.last_name, users.role,
+                organization_members.role AS org_role, organization_members.created_at AS joined_at
+         FROM organization_members JOIN users ON users.id = organization_members.user_id
+         WHERE organization_members.organization_id = ?
+         ORDER BY users.last_name ASC`
+      ).bind(orgId).all();
+
+      return c.json({ members: results });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch organization members');
+    }
+  })
+
+  // Add an existing user to an organization. Only global admins may, since the
+  // user may belong to another organization; organization admins bring people
+  // in through team invitations, which the invitee has to accept.
+  .post('/:orgId/members', requireGlobalAdmin(), requireOrgAdmin, validateBody(addOrganizationMemberSchema), async (c) => {
+    const orgId = c.req.param('orgId');
+
+    try {
+      const body = c.req.valid('json');
+      const role = body.role ?? 'member';
+
+      const user = await c.env.DB.prepare(
+        'SELECT id, role FROM users WHERE id = ?'
+      ).bind(body.userId).first<{ id: string; role: string }>();
+
+      if (!user) {
+        return apiError(c, 404, 'User not found');
+      }
+
+      const existing = await c.env.DB.prepare(
+        'SELECT user_id FROM organization_members WHERE organization_id = ? AND user_id = ?'
+      ).bind(orgId, body.userId).first();
+
+      if (existing) {
+        return apiError(c, 409, 'User is already a member of this organization');
+      }
+
+      if (user.role === 'athlete') {
+        await assertAthleteCapacity(c.env.DB, orgId);
+      }
+
+      await c.env.DB.prepare(
+        'INSERT INTO organization_members (organization_id, user_id, role) VALUES (?, ?, ?)'
+      ).bind(orgId, body.userId, role).run();
+
+      recordChange(c, {
+        action: 'organization.member_add',
+        entityType: 'user',
+        entityId: body.userId,
+        after: { role },
+        organizationId: orgId,
+      });
+      return c.json({ member: { organizationId: orgId, userId: body.userId, role } }, 201);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to add organization member');
+    }
+  })
+
+  // Get the organization's subscription and what its plan entitles it to
+  .get('/:orgId/subscription', requireOrgAdmin, async (c) => {
+    const orgId = c.req.param('orgId');
+
+    try {
+      const { results } = await c.env.DB.prepare(
+        'SELECT * FROM subscriptions WHERE organization_id = ? ORDER BY created_at DESC'
+      ).bind(orgId).all();
+      const plan = await getOrganizationPlan(c.env.DB, orgId);
+
+      return c.json({ plan, entitlements: planEntitlements[plan], subscriptions: results });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch subscription');
+    }
+  })
+
+  // Change a member's organization role
+  .patch('/:orgId/members/:userId', requireOrgAdmin, validateBody(updateOrganizationMemberSchema), async (c) => {
+    const orgId = c.req.param('orgId');
+    const userId = c.req.param('userId');
+
+    try {
+      const body = c.req.valid('json');
+
+      const member = await c.env.DB.prepare(
+        'SELECT role FROM organization_members WHERE organization_id = ? AND user_id = ?'
+      ).bind(orgId, userId).first<{ role: OrganizationRole }>();
+
+      if (!member) {
+        return apiError(c, 404, 'Organization member not found');
+      }
+      if (body.role !== 'org_admin' && (await isLastOrgAdmin(c.env.DB, orgId, member.role))) {
+        return apiError(c, 409, 'The organization must keep at least one organization admin');
+      }
+
+      await c.env.DB.prepare(
+        'UPDATE organization_members SET role = ? WHERE organization_id = ? AND user_id = ?'
+      ).bind(body.role, orgId, userId).run();
+
+      recordChange(c, {
+        action: 'organization.member_update',
+        entityType: 'user',
+        entityId: userId,
+        before: member,
+        after: { role: body.role },
+        organizationId: orgId,
+      });
+
+      return c.json({ member: { organizationId: orgId, userId, role: body.role } });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to update organization member');
+    }
+  })
+
+  // Remove a member from an organization
+  .delete('/:orgId/members/:userId', requireOrgAdmin, async (c) => {
+    const orgId = c.req.param('orgId');
+    const userId = c.req.param('userId');
+
+    try {
+      const member = await c.env.DB.prepare(
+        'SELECT role FROM organization_members WHERE organization_id = ? AND user_id = ?'
+      ).bind(orgId, userId).first<{ role: OrganizationRole }>();
+
+      if (!member) {
+        return apiError(c, 404, 'Organization member not found');
+      }
+      if (await isLastOrgAdmin(c.env.DB, orgId, member.role)) {
+        return apiError(c, 409, 'The organization must keep at least one organization admin');
+      }
+
+      // Their places on the organization's teams go with the membership
+      await c.env.DB.batch([
+        c.env.DB.prepare(
+          'DELETE FROM team_members WHERE user_id = ? AND team_id IN (SELECT id FROM teams WHERE organization_id = ?)'
+        ).bind(userId, orgId),
+        c.env.DB.prepare(
+          'DELETE FROM organization_members WHERE organization_id = ? AND user_id = ?'
+        ).bind(orgId, userId),
+      ]);
+
+      recordChange(c, {
+        action: 'organization.member_remove',
+        entityType: 'user',
+        entityId: userId,
+        before: member,
+        organizationId: orgId,
+      });
+
+      return c.json({ message: 'Organization member removed successfully' });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to remove organization member');
+    }
+  });
+
+export default organizationRoutes;
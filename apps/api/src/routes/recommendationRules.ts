@@ -0,0 +1,192 @@
+import { Hono } from 'hono';
+import {
+  createRecommendationRuleSchema,
+  updateRecommendationRuleSchema,
+} from '../../../../packages/types/recommendationRule';
+import { RecommendationRuleRow, rowToRecommendationRule } from '../agents/athleteData';
+import { DEFAULT_RECOMMENDATION_RULES } from '../agents/recommendationRules';
+import { recordChange } from '../middleware/auditMiddleware';
+import { requireEntitlement } from '../middleware/entitlementMiddleware';
+import { getOrganizationId } from '../middleware/organizationMiddleware';
+import { requirePermission } from '../middleware/permissionMiddleware';
+import { validateBody } from '../middleware/validationMiddleware';
+import { apiError, handleRouteError } from '../utils/errors';
+
+type Bindings = {
+  DB: D1Database;
+};
+
+// An organization's stored rules replace the built-in defaults for every sport they apply to
+const recommendationRuleRoutes = new Hono<{ Bindings: Bindings }>()
+  .use('*', requirePermission('canManageRecommendations'), requireEntitlement('customRecommendationRules'))
+
+  // List stored rules, optionally for one sport
+  .get('/', async (c) => {
+    const sport = c.req.query('sport');
+    const organizationId = getOrganizationId(c);
+
+    try {
+      const { results } = sport
+        ? await c.env.DB.prepare(
+            `SELECT * FROM recommendation_rules
+             WHERE organization_id = ? AND (sport IS NULL OR sport = ?) ORDER BY created_at ASC`
+          ).bind(organizationId, sport).all<RecommendationRuleRow>()
+        : await c.env.DB.prepare(
+            'SELECT * FROM recommendation_rules WHERE organization_id = ? ORDER BY created_at ASC'
+          ).bind(organizationId).all<RecommendationRuleRow>();
+
+      return c.json({ rules: results.map(rowToRecommendationRule) });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch recommendation rules');
+    }
+  })
+
+  // Get the built-in rules, useful as a starting point for custom ones
+  .get('/defaults', (c) => {
+    return c.json({ rules: DEFAULT_RECOMMENDATION_RULES });
+  })
+
+  // Get rule by ID
+  .get('/:ruleId', async (c) => {
+    const ruleId = c.req.param('ruleId');
+
+    try {
+      const rule = await c.env.DB.prepare(
+        'SELECT * FROM recommendation_rules WHERE id = ? AND organization_id = ?'
+      ).bind(ruleId, getOrganizationId(c)).first<RecommendationRuleRow>();
+
+      if (!rule) {
+        return apiError(c, 404, 'Recommendation rule not found');
+      }
+
+      return c.json({ rule: rowToRecommendationRule(rule) });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch recommendation rule');
+    }
+  })
+
+  // Create a rule
+  .post('/', validateBody(createRecommendationRuleSchema), async (c) => {
+    try {
+      const user = c.get('user');
+      const rule = c.req.valid('json');
+      const id = crypto.randomUUID();
+
+      await c.env.DB.prepare(
+        `INSERT INTO recommendation_rules
+           (id, organization_id, name, sport, category_filter, conditions, priority, category, title, description, enabled, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        id,
+        getOrganizationId(c),
+        rule.name,
+        rule.sport ?? null,
+        rule.categoryFilter ?? null,
+        JSON.stringify(rule.conditions),
+        rule.priority,
+        rule.category,
+        rule.title,
+        rule.description,
+        rule.enabled === false ? 0 : 1,
+        user.id
+      ).run();
+
+      const created = await c.env.DB.prepare(
+        'SELECT * FROM recommendation_rules WHERE id = ?'
+      ).bind(id).first<RecommendationRuleRow>();
+
+      recordChange(c, { action: 'recommendation_rule.create', entityType: 'recommendation_rule', entityId: id, after: created });
+      return c.json({ rule: rowToRecommendationRule(created!) }, 201);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to create recommendation rule');
+    }
+  })
+
+  // Update a rule
+  .patch('/:ruleId', validateBody(updateRecommendationRuleSchema), async (c) => {
+    const ruleId = c.req.param('ruleId');
+
+    try {
+      const rule = c.req.valid('json');
+      const columns: Record<string, string | number | null | undefined> = {
+        name: rule.name,
+        sport: rule.sport,
+        category_filter: rule.categoryFilter,
+        conditions: rule.conditions && JSON.stringify(rule.conditions),
+        priority: rule.priority,
+        category: rule.category,
+        title: rule.title,
+        description: rule.description,
+        enabled: rule.enabled === undefined ? undefined : rule.enabled ? 1 : 0,
+      };
+
+      const updates: string[] = [];
+      const values: (string | number | null)[] = [];
+      for (const [column, value] of Object.entries(columns)) {
+        if (value === undefined) continue;
+        updates.push(`${column} = ?`);
+        values.push(value);
+      }
+
+      if (updates.length === 0) {
+        return apiError(c, 400, 'No fields to update');
+      }
+
+      const before = await c.env.DB.prepare(
+        'SELECT * FROM recommendation_rules WHERE id = ? AND organization_id = ?'
+      ).bind(ruleId, getOrganizationId(c)).first<RecommendationRuleRow>();
+
+      if (!before) {
+        return apiError(c, 404, 'Recommendation rule not found');
+      }
+
+      updates.push('updated_at = CURRENT_TIMESTAMP');
+      values.push(ruleId);
+
+      await c.env.DB.prepare(
+        `UPDATE recommendation_rules SET ${updates.join(', ')} WHERE id = ?`
+      ).bind(...values).run();
+
+      const updated = await c.env.DB.prepare(
+        'SELECT * FROM recommendation_rules WHERE id = ?'
+      ).bind(ruleId).first<RecommendationRuleRow>();
+
+      recordChange(c, {
+        action: 'recommendation_rule.update',
+        entityType: 'recommendation_rule',
+        entityId: ruleId,
+        before,
+        after: updated,
+      });
+      return c.json({ rule: rowToRecommendationRule(updated!) });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to update recommendation rule');
+    }
+  })
+
+  // Delete a rule
+  .delete('/:ruleId', async (c) => {
+    const ruleId = c.req.param('ruleId');
+
+    try {
+      const before = await c.env.DB.prepare(
+        'SELECT * FROM recommendation_rules WHERE id = ? AND organization_id = ?'
+      ).bind(ruleId, getOrganizationId(c)).first();
+
+      if (!before) {
+        return apiError(c, 404, 'Recommendation rule not found');
+      }
+
+      await c.env.DB.prepare(
+        'DELETE FROM recommendation_rules WHERE id = ?'
+      ).bind(ruleId).run();
+
+      recordChange(c, { action: 'recommendation_rule.delete', entityType: 'recommendation_rule', entityId: ruleId, before });
+
+      return c.json({ message: 'Recommendation rule deleted successfully' });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to delete recommendation rule');
+    }
+  });
+
+export default recommendationRuleRoutes;
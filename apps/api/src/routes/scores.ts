@@ -0,0 +1,196 @@
+import { Hono } from 'hono';
+import {
+  BulkScoreRow,
+  BulkScoreRowError,
+  BulkScoreResult,
+  MAX_BULK_SCORE_ROWS,
+  bulkScoreImportSchema,
+} from '../../../../packages/types/score';
+import { validate } from '../../../../packages/types/validation';
+import { recordChange } from '../middleware/auditMiddleware';
+import { getOrganizationId } from '../middleware/organizationMiddleware';
+import { getRosterAthleteIds, isAdmin, requirePermission } from '../middleware/permissionMiddleware';
+import { parseCsv } from '../utils/csv';
+import { apiError, handleRouteError } from '../utils/errors';
+import { validateScore } from '../utils/scoreValidation';
+
+type Bindings = {
+  DB: D1Database;
+};
+
+// Rows arrive untrusted from CSV or JSON, so every field is validated before use
+type IncomingRow = { [K in keyof BulkScoreRow]?: unknown };
+
+/**
+ * Maps a CSV record onto a bulk row. Accepts either an `athlete` column or
+ * separate `athlete_id` / `athlete_email` columns.
+ */
+function csvRecordToRow(record: Record<string, string>): IncomingRow {
+  return {
+    athlete: record.athlete || record.athlete_id || record.athlete_email || '',
+    category: record.category,
+    score: record.score,
+    notes: record.notes,
+    recordedAt: record.recorded_at || record.recordedAt,
+  };
+}
+
+// D1 binds at most 100 parameters to a statement
+const MAX_BOUND_PARAMETERS = 100;
+
+// Each identifier is bound twice, once as an ID and once as an email, after the organization
+const IDENTIFIERS_PER_QUERY = Math.floor((MAX_BOUND_PARAMETERS - 1) / 2);
+
+const INSERT_COLUMNS = 7;
+const ROWS_PER_INSERT = Math.floor(MAX_BOUND_PARAMETERS / INSERT_COLUMNS);
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Resolves athlete identifiers (user ID or email) to user IDs. Identifiers
+ * that don't belong to an athlete in the organization are left out of the map.
+ */
+async function resolveAthletes(
+  db: D1Database,
+  organizationId: string,
+  identifiers: string[]
+): Promise<Map<string, string>> {
+  const unique = [...new Set(identifiers.filter(Boolean))];
+  const resolved = new Map<string, string>();
+  if (unique.length === 0) return resolved;
+
+  const ids = new Set<string>();
+  const idsByEmail = new Map<string, string>();
+
+  for (const group of chunk(unique, IDENTIFIERS_PER_QUERY)) {
+    const placeholders = group.map(() => '?').join(', ');
+    const { results } = await db.prepare(
+      `SELECT users.id, lower(users.email) AS email FROM users
+       JOIN organization_members ON organization_members.user_id = users.id AND organization_members.organization_id = ?
+       WHERE (users.id IN (${placeholders}) OR lower(users.email) IN (${placeholders})) AND users.role = 'athlete'`
+    ).bind(organizationId, ...group, ...group.map((identifier) => identifier.toLowerCase())).all<{ id: string; email: string }>();
+
+    for (const row of results) {
+      ids.add(row.id);
+      idsByEmail.set(row.email, row.id);
+    }
+  }
+
+  for (const identifier of unique) {
+    const id = ids.has(identifier) ? identifier : idsByEmail.get(identifier.toLowerCase());
+    if (id) resolved.set(identifier, id);
+  }
+
+  return resolved;
+}
+
+const scoreRoutes = new Hono<{ Bindings: Bindings }>()
+  // Bulk import scores from a CSV upload or a JSON batch
+  .post('/import', requirePermission('canManageScores'), async (c) => {
+    try {
+      const contentType = c.req.header('Content-Type') || '';
+      let rows: IncomingRow[];
+
+      if (contentType.includes('text/csv')) {
+        rows = parseCsv(await c.req.text()).map(csvRecordToRow);
+
+        if (rows.length === 0) {
+          return apiError(c, 400, 'No rows to import');
+        }
+        if (rows.length > MAX_BULK_SCORE_ROWS) {
+          return apiError(c, 400, `A single import is limited to ${MAX_BULK_SCORE_ROWS} rows`);
+        }
+      } else {
+        // The CSV branch rules out validateBody, so the JSON body is checked here
+        const body = await c.req.json<unknown>();
+        const result = validate(bulkScoreImportSchema, Array.isArray(body) ? { rows: body } : body);
+        if (!result.ok) {
+          return apiError(c, 400, 'Request body is invalid', { code: 'validation_failed', details: result.errors });
+        }
+        rows = result.value.rows as IncomingRow[];
+      }
+
+      const organizationId = getOrganizationId(c);
+      const athletes = await resolveAthletes(
+        c.env.DB,
+        organizationId,
+        rows.map((row) => (typeof row.athlete === 'string' ? row.athlete.trim() : ''))
+      );
+
+      // Coaches may only import for athletes on their own teams
+      const roster = isAdmin(c) ? null : await getRosterAthleteIds(c.env.DB, organizationId, c.get('user').id);
+
+      const errors: BulkScoreRowError[] = [];
+      const values: (string | number | null)[][] = [];
+      const scoreIds: string[] = [];
+
+      rows.forEach((row, index) => {
+        // Row numbers are 1-based to match what coaches see in a spreadsheet
+        const rowNumber = index + 1;
+        const athlete = typeof row.athlete === 'string' ? row.athlete.trim() : '';
+
+        if (!athlete) {
+          errors.push({ row: rowNumber, error: 'athlete is required' });
+          return;
+        }
+
+        const userId = athletes.get(athlete);
+        if (!userId) {
+          errors.push({ row: rowNumber, athlete, error: 'Unknown athlete' });
+          return;
+        }
+        if (roster && !roster.has(userId)) {
+          errors.push({ row: rowNumber, athlete, error: 'Athlete is not on one of your teams' });
+          return;
+        }
+
+        const result = validateScore(row);
+        if (!result.ok) {
+          errors.push({ row: rowNumber, athlete, error: result.error });
+          return;
+        }
+
+        const { category, score, notes, recordedAt } = result.value;
+        const scoreId = crypto.randomUUID();
+        scoreIds.push(scoreId);
+        values.push([scoreId, organizationId, userId, category, score, notes, recordedAt]);
+      });
+
+      // Several rows to a statement, and the statements in one batch so the import lands as a whole
+      const inserts = chunk(values, ROWS_PER_INSERT).map((group) =>
+        c.env.DB.prepare(
+          `INSERT INTO athlete_scores (id, organization_id, user_id, category, score, notes, recorded_at)
+           VALUES ${group.map(() => '(?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))').join(', ')}`
+        ).bind(...group.flat())
+      );
+      if (inserts.length > 0) {
+        await c.env.DB.batch(inserts);
+      }
+
+      // One entry for the whole import, naming the scores it created
+      recordChange(c, {
+        action: 'score.import',
+        entityType: 'organization',
+        entityId: organizationId,
+        after: { imported: values.length, failed: errors.length, score_ids: scoreIds },
+      });
+
+      const report: BulkScoreResult = {
+        imported: values.length,
+        failed: errors.length,
+        errors,
+      };
+
+      return c.json(report, values.length > 0 ? 201 : 400);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to import scores');
+    }
+  });
+
+export default scoreRoutes;
@@ -0,0 +1,470 @@
+import { Hono } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { HTTPException } from 'hono/http-exception';
+import {
+  TeamRole,
+  addTeamMemberSchema,
+  createTeamInvitationSchema,
+  createTeamSchema,
+  teamStaffRoles,
+  updateTeamSchema,
+} from '../../../../packages/types/team';
+import { recordChange } from '../middleware/auditMiddleware';
+import { assertAthleteCapacity } from '../middleware/entitlementMiddleware';
+import { getOrganizationId } from '../middleware/organizationMiddleware';
+import { isAdmin, requirePermission } from '../middleware/permissionMiddleware';
+import { validateBody } from '../middleware/validationMiddleware';
+import { apiError, handleRouteError } from '../utils/errors';
+import { toSqlTimestamp } from '../utils/timestamps';
+
+type Bindings = {
+  DB: D1Database;
+};
+
+const INVITATION_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Returns the caller's role on a team, or null if they are not a member.
+ * Throws a 404 when the team does not exist in the organization.
+ */
+async function getTeamRole(
+  db: D1Database,
+  organizationId: string,
+  teamId: string,
+  userId: string
+): Promise<TeamRole | null> {
+  const team = await db.prepare(
+    'SELECT id FROM teams WHERE id = ? AND organization_id = ?'
+  ).bind(teamId, organizationId).first();
+  if (!team) {
+    throw new HTTPException(404, { message: 'Not Found: team does not exist' });
+  }
+
+  const member = await db.prepare(
+    'SELECT role FROM team_members WHERE team_id = ? AND user_id = ?'
+  ).bind(teamId, userId).first<{ role: TeamRole }>();
+
+  return member ? member.role : null;
+}
+
+/**
+ * Checks that a user's global role fits the team role they are being given:
+ * staff roles need a coach or admin account, the athlete role an athlete account.
+ */
+function teamRoleMismatch(globalRole: string, teamRole: TeamRole): string | null {
+  if (teamStaffRoles.includes(teamRole) && globalRole !== 'coach' && globalRole !== 'admin') {
+    return 'Only coaches and admins can hold a coaching role on a team';
+  }
+  if (teamRole === 'athlete' && globalRole !== 'athlete') {
+    return 'Only athletes can hold the athlete role on a team';
+  }
+  return null;
+}
+
+// Any team member (or an admin) may view the team
+const requireTeamMember = createMiddleware<{ Bindings: Bindings }>(async (c, next) => {
+  const role = await getTeamRole(c.env.DB, getOrganizationId(c), c.req.param('teamId')!, c.get('user').id);
+  if (!role && !isAdmin(c)) {
+    throw new HTTPException(403, { message: 'Forbidden: you are not a member of this team' });
+  }
+  await next();
+});
+
+// Only a head coach (or an admin) may change the team and its roster
+const requireHeadCoach = createMiddleware<{ Bindings: Bindings }>(async (c, next) => {
+  const role = await getTeamRole(c.env.DB, getOrganizationId(c), c.req.param('teamId')!, c.get('user').id);
+  if (role !== 'head_coach' && !isAdmin(c)) {
+    throw new HTTPException(403, { message: 'Forbidden: only a head coach or an admin may manage this team' });
+  }
+  await next();
+});
+
+const teamRoutes = new Hono<{ Bindings: Bindings }>()
+  // List teams: admins see every team in the organization, everyone else the teams they belong to
+  .get('/', async (c) => {
+    const organizationId = getOrganizationId(c);
+
+    try {
+      const { results } = isAdmin(c)
+        ? await c.env.DB.prepare(
+            'SELECT * FROM teams WHERE organization_id = ? ORDER BY name ASC'
+          ).bind(organizationId).all()
+        : await c.env.DB.prepare(
+            `SELECT teams.*, team_members.role AS member_role FROM teams
+             JOIN team_members ON team_members.team_id = teams.id
+             WHERE teams.organization_id = ? AND team_members.user_id = ?
+             ORDER BY teams.name ASC`
+          ).bind(organizationId, c.get('user').id).all();
+
+      return c.json({ teams: results });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch teams');
+    }
+  })
+
+  // Accept an invitation sent to the caller's email address. The caller also joins
+  // the team's organization, so this works before they belong to any organization.
+  .post('/invitations/:token/accept', async (c) => {
+    const token = c.req.param('token');
+    const user = c.get('user');
+
+    try {
+      const invitation = await c.env.DB.prepare(
+        `SELECT team_invitations.*, teams.organization_id FROM team_invitations
+         JOIN teams ON teams.id = team_invitations.team_id
+         WHERE team_invitations.token = ? AND team_invitations.status = 'pending' AND team_invitations.expires_at > ?`
+      ).bind(token, toSqlTimestamp(new Date())).first<{
+        id: string;
+        team_id: string;
+        organization_id: string;
+        email: string;
+        role: TeamRole;
+      }>();
+
+      if (!invitation) {
+        return apiError(c, 404, 'Invitation not found or expired');
+      }
+
+      const account = await c.env.DB.prepare(
+        'SELECT email, role FROM users WHERE id = ?'
+      ).bind(user.id).first<{ email: string; role: string }>();
+
+      if (!account || account.email.toLowerCase() !== invitation.email.toLowerCase()) {
+        return apiError(c, 403, 'Forbidden: this invitation was sent to a different email address');
+      }
+
+      const mismatch = teamRoleMismatch(account.role, invitation.role);
+      if (mismatch) {
+        return apiError(c, 400, mismatch);
+      }
+
+      const membership = await c.env.DB.prepare(
+        'SELECT user_id FROM organization_members WHERE organization_id = ? AND user_id = ?'
+      ).bind(invitation.organization_id, user.id).first();
+      const before = await c.env.DB.prepare(
+        'SELECT team_id, role FROM team_members WHERE team_id = ? AND user_id = ?'
+      ).bind(invitation.team_id, user.id).first();
+      if (!membership && account.role === 'athlete') {
+        await assertAthleteCapacity(c.env.DB, invitation.organization_id);
+      }
+
+      await c.env.DB.batch([
+        c.env.DB.prepare(
+          `INSERT INTO organization_members (organization_id, user_id) VALUES (?, ?)
+           ON CONFLICT (organization_id, user_id) DO NOTHING`
+        ).bind(invitation.organization_id, user.id),
+        c.env.DB.prepare(
+          `INSERT INTO team_members (team_id, user_id, role, added_by) VALUES (?, ?, ?, ?)
+           ON CONFLICT (team_id, user_id) DO UPDATE SET role = excluded.role`
+        ).bind(invitation.team_id, user.id, invitation.role, user.id),
+        c.env.DB.prepare(
+          "UPDATE team_invitations SET status = 'accepted' WHERE id = ?"
+        ).bind(invitation.id),
+      ]);
+
+      recordChange(c, {
+        action: 'team.invitation_accept',
+        entityType: 'user',
+        entityId: user.id,
+        before,
+        after: { team_id: invitation.team_id, role: invitation.role },
+        organizationId: invitation.organization_id,
+      });
+      return c.json({ teamId: invitation.team_id, organizationId: invitation.organization_id, role: invitation.role });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to accept invitation');
+    }
+  })
+
+  // Create a team; the creator becomes its head coach
+  .post('/', requirePermission('canManageTeams'), validateBody(createTeamSchema), async (c) => {
+    try {
+      const user = c.get('user');
+      const body = c.req.valid('json');
+      const id = crypto.randomUUID();
+
+      await c.env.DB.batch([
+        c.env.DB.prepare(
+          'INSERT INTO teams (id, organization_id, name, sport, created_by) VALUES (?, ?, ?, ?, ?)'
+        ).bind(id, getOrganizationId(c), body.name, body.sport ?? null, user.id),
+        c.env.DB.prepare(
+          "INSERT INTO team_members (team_id, user_id, role, added_by) VALUES (?, ?, 'head_coach', ?)"
+        ).bind(id, user.id, user.id),
+      ]);
+
+      const team = await c.env.DB.prepare(
+        'SELECT * FROM teams WHERE id = ?'
+      ).bind(id).first();
+
+      recordChange(c, { action: 'team.create', entityType: 'team', entityId: id, after: team });
+      return c.json({ team }, 201);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to create team');
+    }
+  })
+
+  // Get a team and its roster
+  .get('/:teamId', requireTeamMember, async (c) => {
+    const teamId = c.req.param('teamId');
+
+    try {
+      const team = await c.env.DB.prepare(
+        'SELECT * FROM teams WHERE id = ?'
+      ).bind(teamId).first();
+
+      const { results: members } = await c.env.DB.prepare(
+        `SELECT users.id, users.email, users.first_name, users.last_name, team_members.role, team_members.created_at AS joined_at
+         FROM team_members JOIN users ON users.id = team_members.user_id
+         WHERE team_members.team_id = ?
+         ORDER BY team_members.role ASC, users.last_name ASC`
+      ).bind(teamId).all();
+
+      return c.json({ team, members });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch team');
+    }
+  })
+
+  // Update team
+  .patch('/:teamId', requireHeadCoach, validateBody(updateTeamSchema), async (c) => {
+    const teamId = c.req.param('teamId');
+
+    try {
+      const body = c.req.valid('json');
+      const updates: string[] = [];
+      const values: (string | null)[] = [];
+
+      if (body.name !== undefined) {
+        updates.push('name = ?');
+        values.push(body.name);
+      }
+      if (body.sport !== undefined) {
+        updates.push('sport = ?');
+        values.push(body.sport);
+      }
+
+      if (updates.length === 0) {
+        return apiError(c, 400, 'No fields to update');
+      }
+
+      updates.push('updated_at = CURRENT_TIMESTAMP');
+      values.push(teamId);
+
+      const before = await c.env.DB.prepare(
+        'SELECT * FROM teams WHERE id = ?'
+      ).bind(teamId).first();
+
+      await c.env.DB.prepare(
+        `UPDATE teams SET ${updates.join(', ')} WHERE id = ?`
+      ).bind(...values).run();
+
+      const team = await c.env.DB.prepare(
+        'SELECT * FROM teams WHERE id = ?'
+      ).bind(teamId).first();
+
+      recordChange(c, { action: 'team.update', entityType: 'team', entityId: teamId, before, after: team });
+      return c.json({ team });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to update team');
+    }
+  })
+
+  // Delete team
+  .delete('/:teamId', requireHeadCoach, async (c) => {
+    const teamId = c.req.param('teamId');
+
+    try {
+      const before = await c.env.DB.prepare(
+        'SELECT * FROM teams WHERE id = ?'
+      ).bind(teamId).first();
+
+      await c.env.DB.batch([
+        c.env.DB.prepare('DELETE FROM team_invitations WHERE team_id = ?').bind(teamId),
+        c.env.DB.prepare('DELETE FROM team_members WHERE team_id = ?').bind(teamId),
+        c.env.DB.prepare('DELETE FROM teams WHERE id = ?').bind(teamId),
+      ]);
+
+      recordChange(c, { action: 'team.delete', entityType: 'team', entityId: teamId, before });
+      return c.json({ message: 'Team deleted successfully' });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to delete team');
+    }
+  })
+
+  // Add an existing user to the team. Joining a roster opens the athlete's data
+  // to the team's staff, so head coaches invite people and only admins add them directly.
+  .post('/:teamId/members', requireHeadCoach, validateBody(addTeamMemberSchema), async (c) => {
+    const teamId = c.req.param('teamId');
+
+    try {
+      const user = c.get('user');
+      const body = c.req.valid('json');
+
+      if (!isAdmin(c)) {
+        return apiError(c, 403, 'Forbidden: only an admin may add members directly; invite them instead');
+      }
+
+      // Only members of the team's organization can be put on its roster
+      const member = await c.env.DB.prepare(
+        `SELECT users.id, users.role FROM users
+         JOIN organization_members ON organization_members.user_id = users.id
+         WHERE users.id = ? AND organization_members.organization_id = ?`
+      ).bind(body.userId, getOrganizationId(c)).first<{ id: string; role: string }>();
+
+      if (!member) {
+        return apiError(c, 404, 'User not found');
+      }
+
+      const mismatch = teamRoleMismatch(member.role, body.role);
+      if (mismatch) {
+        return apiError(c, 400, mismatch);
+      }
+
+      const existing = await c.env.DB.prepare(
+        'SELECT user_id FROM team_members WHERE team_id = ? AND user_id = ?'
+      ).bind(teamId, member.id).first();
+
+      if (existing) {
+        return apiError(c, 409, 'User is already on this team');
+      }
+
+      await c.env.DB.prepare(
+        'INSERT INTO team_members (team_id, user_id, role, added_by) VALUES (?, ?, ?, ?)'
+      ).bind(teamId, member.id, body.role, user.id).run();
+
+      recordChange(c, {
+        action: 'team.member_add',
+        entityType: 'user',
+        entityId: member.id,
+        after: { team_id: teamId, role: body.role },
+      });
+      return c.json({ member: { teamId, userId: member.id, role: body.role } }, 201);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to add team member');
+    }
+  })
+
+  // Remove a member; members may also remove themselves
+  .delete('/:teamId/members/:userId', async (c) => {
+    const teamId = c.req.param('teamId');
+    const userId = c.req.param('userId');
+    const user = c.get('user');
+
+    try {
+      const callerRole = await getTeamRole(c.env.DB, getOrganizationId(c), teamId, user.id);
+      if (userId !== user.id && callerRole !== 'head_coach' && !isAdmin(c)) {
+        return apiError(c, 403, 'Forbidden: only a head coach or an admin may manage this team');
+      }
+
+      const target = await c.env.DB.prepare(
+        'SELECT role FROM team_members WHERE team_id = ? AND user_id = ?'
+      ).bind(teamId, userId).first<{ role: TeamRole }>();
+
+      if (!target) {
+        return apiError(c, 404, 'Team member not found');
+      }
+
+      // A team always keeps at least one head coach
+      if (target.role === 'head_coach') {
+        const headCoaches = await c.env.DB.prepare(
+          "SELECT COUNT(*) AS count FROM team_members WHERE team_id = ? AND role = 'head_coach'"
+        ).bind(teamId).first<number>('count');
+        if (headCoaches !== null && headCoaches <= 1) {
+          return apiError(c, 400, 'Cannot remove the last head coach of a team');
+        }
+      }
+
+      await c.env.DB.prepare(
+        'DELETE FROM team_members WHERE team_id = ? AND user_id = ?'
+      ).bind(teamId, userId).run();
+
+      recordChange(c, {
+        action: 'team.member_remove',
+        entityType: 'user',
+        entityId: userId,
+        before: { team_id: teamId, role: target.role },
+      });
+      return c.json({ message: 'Team member removed successfully' });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to remove team member');
+    }
+  })
+
+  // List pending invitations
+  .get('/:teamId/invitations', requireHeadCoach, async (c) => {
+    const teamId = c.req.param('teamId');
+
+    try {
+      const { results } = await c.env.DB.prepare(
+        `SELECT id, team_id, email, role, status, invited_by, expires_at, created_at FROM team_invitations
+         WHERE team_id = ? AND status = 'pending' ORDER BY created_at DESC`
+      ).bind(teamId).all();
+
+      return c.json({ invitations: results });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch invitations');
+    }
+  })
+
+  // Invite someone by email; the returned token is sent to them out of band
+  .post('/:teamId/invitations', requireHeadCoach, validateBody(createTeamInvitationSchema), async (c) => {
+    const teamId = c.req.param('teamId');
+
+    try {
+      const user = c.get('user');
+      const body = c.req.valid('json');
+
+      const id = crypto.randomUUID();
+      const token = crypto.randomUUID();
+      const expiresAt = toSqlTimestamp(new Date(Date.now() + INVITATION_TTL));
+
+      await c.env.DB.prepare(
+        `INSERT INTO team_invitations (id, team_id, email, role, token, invited_by, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      ).bind(id, teamId, body.email, body.role, token, user.id, expiresAt).run();
+
+      const invitation = await c.env.DB.prepare(
+        'SELECT * FROM team_invitations WHERE id = ?'
+      ).bind(id).first();
+
+      // The token is left out of the log: it is as good as the invitation itself
+      recordChange(c, {
+        action: 'team.invitation_create',
+        entityType: 'team_invitation',
+        entityId: id,
+        after: { ...invitation, token: undefined },
+      });
+      return c.json({ invitation }, 201);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to create invitation');
+    }
+  })
+
+  // Revoke a pending invitation
+  .delete('/:teamId/invitations/:invitationId', requireHeadCoach, async (c) => {
+    const teamId = c.req.param('teamId');
+    const invitationId = c.req.param('invitationId');
+
+    try {
+      const { meta } = await c.env.DB.prepare(
+        "UPDATE team_invitations SET status = 'revoked' WHERE id = ? AND team_id = ? AND status = 'pending'"
+      ).bind(invitationId, teamId).run();
+
+      if (meta.changes === 0) {
+        return apiError(c, 404, 'Invitation not found');
+      }
+
+      recordChange(c, {
+        action: 'team.invitation_revoke',
+        entityType: 'team_invitation',
+        entityId: invitationId,
+        before: { status: 'pending' },
+        after: { status: 'revoked' },
+      });
+      return c.json({ message: 'Invitation revoked successfully' });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to revoke invitation');
+    }
+  });
+
+export default teamRoutes;
@@ -0,0 +1,197 @@
+import { Hono } from 'hono';
+import { createTrainingSessionSchema, updateTrainingSessionSchema } from '../../../../packages/types/training';
+import { recordChange } from '../middleware/auditMiddleware';
+import { getOrganizationId } from '../middleware/organizationMiddleware';
+import { requirePermission, requireRosterAccess } from '../middleware/permissionMiddleware';
+import { validateBody, validateQuery } from '../middleware/validationMiddleware';
+import { apiError, handleRouteError } from '../utils/errors';
+import { parseDateRange } from '../utils/timestamps';
+import { validateTrainingSession } from '../utils/trainingValidation';
+
+type Bindings = {
+  DB: D1Database;
+};
+
+// Mounted at /api/users alongside userRoutes
+const trainingRoutes = new Hono<{ Bindings: Bindings }>().basePath('/:id/training-sessions')
+  // Athletes manage their own log; coaches manage the athletes on their teams
+  .use('*', requireRosterAccess())
+  .get('*', requirePermission('canViewDashboard'))
+
+  // List an athlete's training sessions, optionally within a date range
+  .get('/', validateQuery(parseDateRange), async (c) => {
+    const userId = c.req.param('id');
+    const { from, to } = c.req.valid('query');
+
+    try {
+      const conditions = ['user_id = ?', 'organization_id = ?'];
+      const values: string[] = [userId, getOrganizationId(c)];
+
+      if (from) {
+        conditions.push('session_date >= ?');
+        values.push(from);
+      }
+      if (to) {
+        conditions.push('session_date <= ?');
+        values.push(to);
+      }
+
+      const { results } = await c.env.DB.prepare(
+        `SELECT * FROM training_sessions WHERE ${conditions.join(' AND ')} ORDER BY session_date DESC`
+      ).bind(...values).all();
+
+      return c.json({ trainingSessions: results });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch training sessions');
+    }
+  })
+
+  // Get a single training session
+  .get('/:sessionId', async (c) => {
+    const userId = c.req.param('id');
+    const sessionId = c.req.param('sessionId');
+
+    try {
+      const session = await c.env.DB.prepare(
+        'SELECT * FROM training_sessions WHERE id = ? AND user_id = ? AND organization_id = ?'
+      ).bind(sessionId, userId, getOrganizationId(c)).first();
+
+      if (!session) {
+        return apiError(c, 404, 'Training session not found');
+      }
+
+      return c.json({ trainingSession: session });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch training session');
+    }
+  })
+
+  // Log a training session
+  .post('/', validateBody(createTrainingSessionSchema), async (c) => {
+    const userId = c.req.param('id');
+
+    try {
+      const result = validateTrainingSession({ ...c.req.valid('json') });
+
+      if (!result.ok) {
+        return apiError(c, 400, result.error, { code: 'validation_failed' });
+      }
+
+      const id = crypto.randomUUID();
+      const { type, duration, intensity, date, notes } = result.value;
+
+      await c.env.DB.prepare(
+        `INSERT INTO training_sessions (id, organization_id, user_id, type, duration, intensity, notes, session_date)
+         VALUES (?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))`
+      ).bind(id, getOrganizationId(c), userId, type, duration, intensity, notes ?? null, date ?? null).run();
+
+      const session = await c.env.DB.prepare(
+        'SELECT * FROM training_sessions WHERE id = ?'
+      ).bind(id).first();
+
+      recordChange(c, { action: 'training_session.create', entityType: 'training_session', entityId: id, after: session });
+      return c.json({ trainingSession: session }, 201);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to create training session');
+    }
+  })
+
+  // Update a training session
+  .patch('/:sessionId', validateBody(updateTrainingSessionSchema), async (c) => {
+    const userId = c.req.param('id');
+    const sessionId = c.req.param('sessionId');
+
+    try {
+      const result = validateTrainingSession({ ...c.req.valid('json') }, true);
+
+      if (!result.ok) {
+        return apiError(c, 400, result.error, { code: 'validation_failed' });
+      }
+
+      const updates: string[] = [];
+      const values: (string | number | null)[] = [];
+      const { type, duration, intensity, date, notes } = result.value;
+
+      if (type !== undefined) {
+        updates.push('type = ?');
+        values.push(type);
+      }
+      if (duration !== undefined) {
+        updates.push('duration = ?');
+        values.push(duration);
+      }
+      if (intensity !== undefined) {
+        updates.push('intensity = ?');
+        values.push(intensity);
+      }
+      if (date !== undefined) {
+        updates.push('session_date = ?');
+        values.push(date);
+      }
+      if (notes !== undefined) {
+        updates.push('notes = ?');
+        values.push(notes);
+      }
+
+      if (updates.length === 0) {
+        return apiError(c, 400, 'No fields to update');
+      }
+
+      const before = await c.env.DB.prepare(
+        'SELECT * FROM training_sessions WHERE id = ? AND user_id = ? AND organization_id = ?'
+      ).bind(sessionId, userId, getOrganizationId(c)).first();
+
+      if (!before) {
+        return apiError(c, 404, 'Training session not found');
+      }
+
+      updates.push('updated_at = CURRENT_TIMESTAMP');
+      values.push(sessionId);
+
+      await c.env.DB.prepare(
+        `UPDATE training_sessions SET ${updates.join(', ')} WHERE id = ?`
+      ).bind(...values).run();
+
+      const session = await c.env.DB.prepare(
+        'SELECT * FROM training_sessions WHERE id = ?'
+      ).bind(sessionId).first();
+
+      recordChange(c, {
+        action: 'training_session.update',
+        entityType: 'training_session',
+        entityId: sessionId,
+        before,
+        after: session,
+      });
+      return c.json({ trainingSession: session });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to update training session');
+    }
+  })
+
+  // Delete a training session
+  .delete('/:sessionId', async (c) => {
+    const userId = c.req.param('id');
+    const sessionId = c.req.param('sessionId');
+
+    try {
+      const before = await c.env.DB.prepare(
+        'SELECT * FROM training_sessions WHERE id = ? AND user_id = ? AND organization_id = ?'
+      ).bind(sessionId, userId, getOrganizationId(c)).first();
+
+      if (!before) {
+        return apiError(c, 404, 'Training session not found');
+      }
+
+      await c.env.DB.prepare(
+        'DELETE FROM training_sessions WHERE id = ?'
+      ).bind(sessionId).run();
+
+      recordChange(c, { action: 'training_session.delete', entityType: 'training_session', entityId: sessionId, before });
+      return c.json({ message: 'Training session deleted successfully' });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to delete training session');
+    }
+  });
+
+export default trainingRoutes;
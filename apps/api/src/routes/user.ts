@@ -1,176 +1,392 @@
 import { Hono } from 'hono';
-import { User, CreateUserInput, UpdateUserInput } from '../../../packages/types/user';
+import { User, createUserSchema, updateUserSchema } from '../../../../packages/types/user';
+import { ScoreHistory, ScoreHistoryPoint, ScoreHistorySeries, createScoreSchema } from '../../../../packages/types/score';
+import { teamStaffRoles } from '../../../../packages/types/team';
+import { recordChange } from '../middleware/auditMiddleware';
+import { assertAthleteCapacity } from '../middleware/entitlementMiddleware';
+import { getOrganizationId } from '../middleware/organizationMiddleware';
+import { requirePermission, requireOwnership, requireRosterAccess } from '../middleware/permissionMiddleware';
+import { validateBody, validateQuery } from '../middleware/validationMiddleware';
+import { apiError, handleRouteError } from '../utils/errors';
+import { bucketStarts, parseScoreHistory } from '../utils/scoreHistory';
+import { validateScore } from '../utils/scoreValidation';
+import { removeUser } from '../utils/userSync';
 
 type Bindings = {
   DB: D1Database;
 };
 
-const userRoutes = new Hono<{ Bindings: Bindings }>();
+// Athletes may only act on their own profile; admins may act on anyone's in their organization
+const requireSelf = requireOwnership(async (c) => {
+  const member = await c.env.DB.prepare(
+    'SELECT user_id FROM organization_members WHERE organization_id = ? AND user_id = ?'
+  ).bind(getOrganizationId(c), c.req.param('id')).first<{ user_id: string }>();
+  return member ? member.user_id : null;
+});
 
-// Get all users
-userRoutes.get('/', async (c) => {
-  try {
-    const { results } = await c.env.DB.prepare(
-      'SELECT * FROM users ORDER BY created_at DESC'
-    ).all();
+const userRoutes = new Hono<{ Bindings: Bindings }>()
+  // Get all users
+  .get('/', requirePermission('canViewDashboard'), async (c) => {
+    try {
+      const organizationId = getOrganizationId(c);
 
-    return c.json({ users: results });
-  } catch (error) {
-    return c.json({ error: 'Failed to fetch users' }, 500);
-  }
-});
+      // User managers see the whole organization; others see themselves and the athletes they coach
+      const { results } = c.get('permissions').canManageUsers
+        ? await c.env.DB.prepare(
+            `SELECT users.* FROM users
+             JOIN organization_members ON organization_members.user_id = users.id
+             WHERE organization_members.organization_id = ?
+             ORDER BY users.created_at DESC`
+          ).bind(organizationId).all()
+        : await c.env.DB.prepare(
+            `SELECT * FROM users WHERE id = ? OR id IN (
+               SELECT athlete.user_id FROM team_members staff
+               JOIN teams ON teams.id = staff.team_id AND teams.organization_id = ?
+               JOIN team_members athlete ON athlete.team_id = staff.team_id AND athlete.role = 'athlete'
+               WHERE staff.user_id = ? AND staff.role IN (${teamStaffRoles.map(() => '?').join(', ')})
+             ) ORDER BY created_at DESC`
+          ).bind(c.get('user').id, organizationId, c.get('user').id, ...teamStaffRoles).all();
 
-// Get user by ID
-userRoutes.get('/:id', async (c) => {
-  const id = c.req.param('id');
+      return c.json({ users: results });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch users');
+    }
+  })
 
-  try {
-    const user = await c.env.DB.prepare(
-      'SELECT * FROM users WHERE id = ?'
-    ).bind(id).first();
+  // Get user by ID
+  .get('/:id', requirePermission('canViewDashboard'), requireRosterAccess(), async (c) => {
+    const id = c.req.param('id');
 
-    if (!user) {
-      return c.json({ error: 'User not found' }, 404);
+    try {
+      const user = await c.env.DB.prepare(
+        'SELECT * FROM users WHERE id = ?'
+      ).bind(id).first();
+
+      if (!user) {
+        return apiError(c, 404, 'User not found');
+      }
+
+      return c.json({ user });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch user');
     }
+  })
 
-    return c.json({ user });
-  } catch (error) {
-    return c.json({ error: 'Failed to fetch user' }, 500);
-  }
-});
+  // Create a new user
+  .post('/', requirePermission('canManageUsers'), validateBody(createUserSchema), async (c) => {
+    try {
+      const body = c.req.valid('json');
+      const id = crypto.randomUUID();
 
-// Create a new user
-userRoutes.post('/', async (c) => {
-  try {
-    const body = await c.req.json<CreateUserInput>();
-    const id = crypto.randomUUID();
-
-    await c.env.DB.prepare(
-      `INSERT INTO users (id, email, first_name, last_name, role) 
-       VALUES (?, ?, ?, ?, ?)`
-    ).bind(id, body.email, body.firstName, body.lastName, body.role || 'athlete').run();
-
-    const user = await c.env.DB.prepare(
-      'SELECT * FROM users WHERE id = ?'
-    ).bind(id).first();
-
-    return c.json({ user }, 201);
-  } catch (error) {
-    return c.json({ error: 'Failed to create user' }, 500);
-  }
-});
+      // users.role is the deployment-wide role; organization admins manage
+      // their members' organization roles through /api/organizations instead
+      if (body.role === 'admin' && c.get('role') !== 'admin') {
+        return apiError(c, 403, 'Forbidden: only a global admin may create a global admin');
+      }
 
-// Update user
-userRoutes.patch('/:id', async (c) => {
-  const id = c.req.param('id');
+      if ((body.role || 'athlete') === 'athlete') {
+        await assertAthleteCapacity(c.env.DB, getOrganizationId(c));
+      }
 
-  try {
-    const body = await c.req.json<UpdateUserInput>();
-    const updates: string[] = [];
-    const values: (string | undefined)[] = [];
+      // New users join the organization they were created in
+      await c.env.DB.batch([
+        c.env.DB.prepare(
+          `INSERT INTO users (id, email, first_name, last_name, role) 
+           VALUES (?, ?, ?, ?, ?)`
+        ).bind(id, body.email, body.firstName, body.lastName, body.role || 'athlete'),
+        c.env.DB.prepare(
+          'INSERT INTO organization_members (organization_id, user_id) VALUES (?, ?)'
+        ).bind(getOrganizationId(c), id),
+      ]);
 
-    if (body.firstName !== undefined) {
-      updates.push('first_name = ?');
-      values.push(body.firstName);
-    }
-    if (body.lastName !== undefined) {
-      updates.push('last_name = ?');
-      values.push(body.lastName);
-    }
-    if (body.role !== undefined) {
-      updates.push('role = ?');
-      values.push(body.role);
+      const user = await c.env.DB.prepare(
+        'SELECT * FROM users WHERE id = ?'
+      ).bind(id).first();
+
+      recordChange(c, { action: 'user.create', entityType: 'user', entityId: id, after: user });
+      return c.json({ user }, 201);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to create user');
     }
-    if (body.avatar !== undefined) {
-      updates.push('avatar = ?');
-      values.push(body.avatar);
+  })
+
+  // Update user
+  .patch('/:id', requirePermission('canEditProfile'), requireSelf, validateBody(updateUserSchema), async (c) => {
+    const id = c.req.param('id');
+
+    try {
+      const body = c.req.valid('json');
+
+      // Changing a role is a user-management action, not a profile edit
+      if (body.role !== undefined && !c.get('permissions').canManageUsers) {
+        return apiError(c, 403, 'Forbidden: missing permission canManageUsers');
+      }
+
+      const updates: string[] = [];
+      const values: (string | null)[] = [];
+
+      if (body.firstName !== undefined) {
+        updates.push('first_name = ?');
+        values.push(body.firstName);
+      }
+      if (body.lastName !== undefined) {
+        updates.push('last_name = ?');
+        values.push(body.lastName);
+      }
+      const before = await c.env.DB.prepare(
+        'SELECT * FROM users WHERE id = ?'
+      ).bind(id).first();
+
+      if (body.role !== undefined) {
+        const changesAdmin = (body.role === 'admin') !== (before?.role === 'admin');
+        if (changesAdmin && c.get('role') !== 'admin') {
+          return apiError(c, 403, 'Forbidden: only a global admin may grant or revoke the global admin role');
+        }
+        // users.role applies in every organization, so one organization's admins may
+        // only set it for users who belong to no other
+        if (c.get('role') !== 'admin' && body.role !== before?.role) {
+          const memberships = await c.env.DB.prepare(
+            'SELECT COUNT(*) AS count FROM organization_members WHERE user_id = ?'
+          ).bind(id).first<{ count: number }>();
+          if ((memberships?.count ?? 0) > 1) {
+            return apiError(c, 403, 'Forbidden: only a global admin may change the role of a user in several organizations');
+          }
+        }
+        if (body.role === 'athlete' && before?.role !== 'athlete') {
+          await assertAthleteCapacity(c.env.DB, getOrganizationId(c));
+        }
+        updates.push('role = ?');
+        values.push(body.role);
+      }
+      if (body.avatar !== undefined) {
+        updates.push('avatar = ?');
+        values.push(body.avatar);
+      }
+      if (body.bio !== undefined) {
+        updates.push('bio = ?');
+        values.push(body.bio);
+      }
+      if (body.phone !== undefined) {
+        updates.push('phone = ?');
+        values.push(body.phone);
+      }
+      if (body.sport !== undefined) {
+        updates.push('sport = ?');
+        values.push(body.sport);
+      }
+
+      if (updates.length === 0) {
+        return apiError(c, 400, 'No fields to update');
+      }
+
+      updates.push('updated_at = CURRENT_TIMESTAMP');
+      values.push(id);
+
+      await c.env.DB.prepare(
+        `UPDATE users SET ${updates.join(', ')} WHERE id = ?`
+      ).bind(...values).run();
+
+      const user = await c.env.DB.prepare(
+        'SELECT * FROM users WHERE id = ?'
+      ).bind(id).first();
+
+      recordChange(c, {
+        action: user?.role !== before?.role ? 'user.role_change' : 'user.update',
+        entityType: 'user',
+        entityId: id,
+        before,
+        after: user,
+      });
+      return c.json({ user });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to update user');
     }
-    if (body.bio !== undefined) {
-      updates.push('bio = ?');
-      values.push(body.bio);
+  })
+
+  // Delete user: removes them from the organization, and scrubs the account
+  // once they belong to no organization at all. Their scores and other records
+  // stay, so the row is kept rather than deleted.
+  .delete('/:id', requirePermission('canManageUsers'), async (c) => {
+    const id = c.req.param('id');
+    const organizationId = getOrganizationId(c);
+
+    try {
+      const member = await c.env.DB.prepare(
+        'SELECT user_id FROM organization_members WHERE organization_id = ? AND user_id = ?'
+      ).bind(organizationId, id).first();
+
+      if (!member) {
+        return apiError(c, 404, 'User not found');
+      }
+
+      const before = await c.env.DB.prepare(
+        'SELECT * FROM users WHERE id = ?'
+      ).bind(id).first();
+
+      const otherOrganizations = await c.env.DB.prepare(
+        'SELECT COUNT(*) AS count FROM organization_members WHERE user_id = ? AND organization_id != ?'
+      ).bind(id, organizationId).first<number>('count');
+
+      if (otherOrganizations === 0) {
+        // Scrubbing revokes the user's role, which for a global admin only another global admin may do
+        if (before?.role === 'admin' && c.get('role') !== 'admin') {
+          return apiError(c, 403, 'Forbidden: only a global admin may delete a global admin');
+        }
+        await removeUser(c.env.DB, id);
+      } else {
+        await c.env.DB.batch([
+          c.env.DB.prepare(
+            'DELETE FROM team_members WHERE user_id = ? AND team_id IN (SELECT id FROM teams WHERE organization_id = ?)'
+          ).bind(id, organizationId),
+          c.env.DB.prepare(
+            'DELETE FROM organization_members WHERE organization_id = ? AND user_id = ?'
+          ).bind(organizationId, id),
+        ]);
+      }
+
+      // Only the membership goes unless this was the user's last organization
+      recordChange(c, {
+        action: otherOrganizations === 0 ? 'user.delete' : 'user.remove',
+        entityType: 'user',
+        entityId: id,
+        before: otherOrganizations === 0 ? before : { organization_id: organizationId },
+      });
+      return c.json({ message: 'User deleted successfully' });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to delete user');
     }
-    if (body.phone !== undefined) {
-      updates.push('phone = ?');
-      values.push(body.phone);
+  })
+
+  // Get user scores
+  .get('/:id/scores', requirePermission('canViewDashboard'), requireRosterAccess(), async (c) => {
+    const id = c.req.param('id');
+
+    try {
+      const { results } = await c.env.DB.prepare(
+        `SELECT category, score as value, recorded_at as recordedAt 
+         FROM athlete_scores 
+         WHERE user_id = ? AND organization_id = ?
+         ORDER BY recorded_at DESC`
+      ).bind(id, getOrganizationId(c)).all();
+
+      // Group scores by category and calculate trends
+      const categoryScores: Record<string, { values: number[]; latestDate: string }> = {};
+      
+      for (const row of results as { category: string; value: number; recordedAt: string }[]) {
+        if (!categoryScores[row.category]) {
+          categoryScores[row.category] = { values: [], latestDate: row.recordedAt };
+        }
+        categoryScores[row.category].values.push(row.value);
+      }
+
+      const scores = Object.entries(categoryScores).map(([category, data]) => {
+        const values = data.values;
+        let trend: 'up' | 'down' | 'stable' = 'stable';
+        
+        if (values.length >= 2) {
+          const diff = values[0] - values[1];
+          if (diff > 0) trend = 'up';
+          else if (diff < 0) trend = 'down';
+        }
+
+        return {
+          category,
+          value: values[0],
+          trend,
+          lastUpdated: data.latestDate,
+        };
+      });
+
+      return c.json({ scores });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch user scores');
     }
+  })
+
+  // Get an athlete's score history per category, averaged per day, week or month
+  .get('/:id/scores/history', requirePermission('canViewDashboard'), requireRosterAccess(), validateQuery(parseScoreHistory), async (c) => {
+    const id = c.req.param('id');
+    const { from, to, bucket, category } = c.req.valid('query');
 
-    if (updates.length === 0) {
-      return c.json({ error: 'No fields to update' }, 400);
+    try {
+      const conditions = ['user_id = ?', 'organization_id = ?'];
+      const values: string[] = [id, getOrganizationId(c)];
+
+      if (from) {
+        conditions.push('recorded_at >= ?');
+        values.push(from);
+      }
+      if (to) {
+        conditions.push('recorded_at <= ?');
+        values.push(to);
+      }
+      if (category) {
+        conditions.push('category = ?');
+        values.push(category);
+      }
+
+      const { results } = await c.env.DB.prepare(
+        `SELECT category, ${bucketStarts[bucket]} AS period, ROUND(AVG(score), 2) AS average,
+                MIN(score) AS min, MAX(score) AS max, COUNT(*) AS count
+         FROM athlete_scores
+         WHERE ${conditions.join(' AND ')}
+         GROUP BY category, period
+         ORDER BY category, period`
+      ).bind(...values).all<ScoreHistoryPoint & { category: string }>();
+
+      const categories: ScoreHistorySeries[] = [];
+      for (const { category: name, ...point } of results) {
+        const series = categories[categories.length - 1];
+        if (series?.category === name) {
+          series.points.push(point);
+        } else {
+          categories.push({ category: name, points: [point] });
+        }
+      }
+
+      const history: ScoreHistory = { bucket, from, to, categories };
+      return c.json(history);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch score history');
     }
+  })
 
-    updates.push('updated_at = CURRENT_TIMESTAMP');
-    values.push(id);
+  // Record a single score for an athlete
+  .post('/:id/scores', requirePermission('canManageScores'), requireRosterAccess(), validateBody(createScoreSchema), async (c) => {
+    const id = c.req.param('id');
 
-    await c.env.DB.prepare(
-      `UPDATE users SET ${updates.join(', ')} WHERE id = ?`
-    ).bind(...values).run();
+    try {
+      const result = validateScore(c.req.valid('json'));
 
-    const user = await c.env.DB.prepare(
-      'SELECT * FROM users WHERE id = ?'
-    ).bind(id).first();
+      if (!result.ok) {
+        return apiError(c, 400, result.error, { code: 'validation_failed' });
+      }
 
-    return c.json({ user });
-  } catch (error) {
-    return c.json({ error: 'Failed to update user' }, 500);
-  }
-});
+      const athlete = await c.env.DB.prepare(
+        "SELECT id FROM users WHERE id = ? AND role = 'athlete'"
+      ).bind(id).first();
 
-// Delete user
-userRoutes.delete('/:id', async (c) => {
-  const id = c.req.param('id');
+      if (!athlete) {
+        return apiError(c, 404, 'Athlete not found');
+      }
 
-  try {
-    await c.env.DB.prepare('DELETE FROM users WHERE id = ?').bind(id).run();
-    return c.json({ message: 'User deleted successfully' });
-  } catch (error) {
-    return c.json({ error: 'Failed to delete user' }, 500);
-  }
-});
+      const scoreId = crypto.randomUUID();
+      const { category, score, notes, recordedAt } = result.value;
 
-// Get user scores
-userRoutes.get('/:id/scores', async (c) => {
-  const id = c.req.param('id');
-
-  try {
-    const { results } = await c.env.DB.prepare(
-      `SELECT category, score as value, recorded_at as recordedAt 
-       FROM athlete_scores 
-       WHERE user_id = ? 
-       ORDER BY recorded_at DESC`
-    ).bind(id).all();
-
-    // Group scores by category and calculate trends
-    const categoryScores: Record<string, { values: number[]; latestDate: string }> = {};
-    
-    for (const row of results as { category: string; value: number; recordedAt: string }[]) {
-      if (!categoryScores[row.category]) {
-        categoryScores[row.category] = { values: [], latestDate: row.recordedAt };
-      }
-      categoryScores[row.category].values.push(row.value);
-    }
+      await c.env.DB.prepare(
+        `INSERT INTO athlete_scores (id, organization_id, user_id, category, score, notes, recorded_at) 
+         VALUES (?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))`
+      ).bind(scoreId, getOrganizationId(c), id, category, score, notes, recordedAt).run();
 
-    const scores = Object.entries(categoryScores).map(([category, data]) => {
-      const values = data.values;
-      let trend: 'up' | 'down' | 'stable' = 'stable';
-      
-      if (values.length >= 2) {
-        const diff = values[0] - values[1];
-        if (diff > 0) trend = 'up';
-        else if (diff < 0) trend = 'down';
-      }
-
-      return {
-        category,
-        value: values[0],
-        trend,
-        lastUpdated: data.latestDate,
-      };
-    });
-
-    return c.json({ scores });
-  } catch (error) {
-    return c.json({ error: 'Failed to fetch user scores' }, 500);
-  }
-});
+      const created = await c.env.DB.prepare(
+        'SELECT * FROM athlete_scores WHERE id = ?'
+      ).bind(scoreId).first();
+
+      recordChange(c, { action: 'score.create', entityType: 'score', entityId: scoreId, after: created });
+      return c.json({ score: created }, 201);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to record score');
+    }
+  });
 
 export default userRoutes;
@@ -0,0 +1,166 @@
+import { Hono } from 'hono';
+import {
+  createWellnessMetricSchema,
+  wellnessCheckInSchema,
+  wellnessMetricTypes,
+} from '../../../../packages/types/training';
+import { recordChange } from '../middleware/auditMiddleware';
+import { getOrganizationId } from '../middleware/organizationMiddleware';
+import { requirePermission, requireRosterAccess } from '../middleware/permissionMiddleware';
+import { validateBody, validateQuery } from '../middleware/validationMiddleware';
+import { apiError, handleRouteError } from '../utils/errors';
+import { parseWellnessFilter, validateWellnessMetric, ValidatedWellnessMetric } from '../utils/trainingValidation';
+
+type Bindings = {
+  DB: D1Database;
+};
+
+// Mounted at /api/users alongside userRoutes
+const wellnessRoutes = new Hono<{ Bindings: Bindings }>().basePath('/:id/wellness')
+  // Athletes manage their own check-ins; coaches manage the athletes on their teams
+  .use('*', requireRosterAccess())
+  .get('*', requirePermission('canViewDashboard'))
+
+  // List an athlete's wellness metrics, optionally filtered by type and date range
+  .get('/', validateQuery(parseWellnessFilter), async (c) => {
+    const userId = c.req.param('id');
+    const { type, from, to } = c.req.valid('query');
+
+    try {
+      const conditions = ['user_id = ?', 'organization_id = ?'];
+      const values: string[] = [userId, getOrganizationId(c)];
+
+      if (type) {
+        conditions.push('type = ?');
+        values.push(type);
+      }
+      if (from) {
+        conditions.push('recorded_at >= ?');
+        values.push(from);
+      }
+      if (to) {
+        conditions.push('recorded_at <= ?');
+        values.push(to);
+      }
+
+      const { results } = await c.env.DB.prepare(
+        `SELECT * FROM wellness_metrics WHERE ${conditions.join(' AND ')} ORDER BY recorded_at DESC`
+      ).bind(...values).all();
+
+      return c.json({ wellnessMetrics: results });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to fetch wellness metrics');
+    }
+  })
+
+  // Record a single wellness metric
+  .post('/', validateBody(createWellnessMetricSchema), async (c) => {
+    const userId = c.req.param('id');
+
+    try {
+      // The range for the value depends on the metric type
+      const result = validateWellnessMetric({ ...c.req.valid('json') });
+
+      if (!result.ok) {
+        return apiError(c, 400, result.error, { code: 'validation_failed' });
+      }
+
+      const id = crypto.randomUUID();
+      const { type, value, recordedAt, notes } = result.value;
+
+      await c.env.DB.prepare(
+        `INSERT INTO wellness_metrics (id, organization_id, user_id, type, value, notes, recorded_at)
+         VALUES (?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))`
+      ).bind(id, getOrganizationId(c), userId, type, value, notes, recordedAt).run();
+
+      const metric = await c.env.DB.prepare(
+        'SELECT * FROM wellness_metrics WHERE id = ?'
+      ).bind(id).first();
+
+      recordChange(c, { action: 'wellness_metric.create', entityType: 'wellness_metric', entityId: id, after: metric });
+      return c.json({ wellnessMetric: metric }, 201);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to record wellness metric');
+    }
+  })
+
+  // Record a daily check-in covering any of sleep, nutrition, recovery and stress
+  .post('/check-in', validateBody(wellnessCheckInSchema), async (c) => {
+    const userId = c.req.param('id');
+
+    try {
+      const body = c.req.valid('json');
+      const metrics: ValidatedWellnessMetric[] = [];
+
+      for (const type of wellnessMetricTypes) {
+        if (body[type] === undefined) continue;
+
+        const result = validateWellnessMetric({
+          type,
+          value: body[type],
+          recordedAt: body.date,
+          notes: body.notes,
+        });
+        if (!result.ok) {
+          return apiError(c, 400, result.error, { code: 'validation_failed' });
+        }
+        metrics.push(result.value);
+      }
+
+      if (metrics.length === 0) {
+        return apiError(c, 400, 'A check-in needs at least one metric');
+      }
+
+      const insert = c.env.DB.prepare(
+        `INSERT INTO wellness_metrics (id, organization_id, user_id, type, value, notes, recorded_at)
+         VALUES (?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))`
+      );
+      const ids = metrics.map(() => crypto.randomUUID());
+
+      await c.env.DB.batch(
+        metrics.map((m, i) => insert.bind(ids[i], getOrganizationId(c), userId, m.type, m.value, m.notes, m.recordedAt))
+      );
+
+      const { results } = await c.env.DB.prepare(
+        `SELECT * FROM wellness_metrics WHERE id IN (${ids.map(() => '?').join(', ')})`
+      ).bind(...ids).all();
+
+      // One entry for the check-in, on the athlete, with each metric it recorded
+      recordChange(c, {
+        action: 'wellness.check_in',
+        entityType: 'user',
+        entityId: userId,
+        after: Object.fromEntries(results.map((metric) => [metric.type as string, metric])),
+      });
+      return c.json({ wellnessMetrics: results }, 201);
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to record check-in');
+    }
+  })
+
+  // Delete a wellness metric
+  .delete('/:metricId', async (c) => {
+    const userId = c.req.param('id');
+    const metricId = c.req.param('metricId');
+
+    try {
+      const before = await c.env.DB.prepare(
+        'SELECT * FROM wellness_metrics WHERE id = ? AND user_id = ? AND organization_id = ?'
+      ).bind(metricId, userId, getOrganizationId(c)).first();
+
+      if (!before) {
+        return apiError(c, 404, 'Wellness metric not found');
+      }
+
+      await c.env.DB.prepare(
+        'DELETE FROM wellness_metrics WHERE id = ?'
+      ).bind(metricId).run();
+
+      recordChange(c, { action: 'wellness_metric.delete', entityType: 'wellness_metric', entityId: metricId, before });
+      return c.json({ message: 'Wellness metric deleted successfully' });
+    } catch (error) {
+      return handleRouteError(c, error, 'Failed to delete wellness metric');
+    }
+  });
+
+export default wellnessRoutes;
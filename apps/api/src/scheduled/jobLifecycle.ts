@@ -0,0 +1,23 @@
+import { toSqlTimestamp } from '../utils/timestamps';
+
+/**
+ * Publishes scheduled jobs whose publish date has passed and closes live jobs
+ * that have expired. Runs from the cron trigger in wrangler.toml; publishing
+ * first means a job scheduled and expired between runs ends up closed.
+ */
+export async function runJobLifecycle(db: D1Database, now = new Date()): Promise<{ published: number; closed: number }> {
+  const timestamp = toSqlTimestamp(now);
+
+  const [published, closed] = await db.batch([
+    db.prepare(
+      `UPDATE jobs SET status = 'active', updated_at = CURRENT_TIMESTAMP
+       WHERE status = 'scheduled' AND publish_at <= ?`
+    ).bind(timestamp),
+    db.prepare(
+      `UPDATE jobs SET status = 'closed', updated_at = CURRENT_TIMESTAMP
+       WHERE status = 'active' AND expires_at IS NOT NULL AND expires_at <= ?`
+    ).bind(timestamp),
+  ]);
+
+  return { published: published.meta.changes, closed: closed.meta.changes };
+}
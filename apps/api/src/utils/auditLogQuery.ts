@@ -0,0 +1,61 @@
+import { DateRange, parseDateRange } from './timestamps';
+
+const DEFAULT_LIMIT = 50;
+const MAX_AUDIT_LOG_LIMIT = 200;
+
+// Exact-match filters and the columns they apply to
+export const auditLogFilterColumns = {
+  actorId: 'actor_id',
+  apiKeyId: 'api_key_id',
+  action: 'action',
+  entityType: 'entity_type',
+  entityId: 'entity_id',
+} as const;
+
+type AuditLogFilter = keyof typeof auditLogFilterColumns;
+
+export interface AuditLogOptions extends DateRange {
+  filters: Partial<Record<AuditLogFilter, string>>;
+  // The id entries must be below, from the previous page's nextCursor
+  cursor: number | null;
+  limit: number;
+}
+
+// The audit log's query parameters, all optional
+export type AuditLogQuery = Partial<Record<AuditLogFilter, string>> & {
+  from?: string;
+  to?: string;
+  cursor?: string;
+  limit?: string;
+};
+
+type AuditLogQueryResult = { ok: true; value: AuditLogOptions } | { ok: false; error: string };
+
+export function parseAuditLogQuery(query: AuditLogQuery): AuditLogQueryResult {
+  const range = parseDateRange(query);
+  if (!range.ok) return range;
+
+  const filters: AuditLogOptions['filters'] = {};
+  for (const param of Object.keys(auditLogFilterColumns) as AuditLogFilter[]) {
+    const value = query[param]?.trim();
+    if (value) filters[param] = value;
+  }
+
+  let cursor: number | null = null;
+  if (query.cursor) {
+    cursor = Number(query.cursor);
+    if (!Number.isInteger(cursor) || cursor < 1) {
+      return { ok: false, error: 'cursor is invalid' };
+    }
+  }
+
+  let limit = DEFAULT_LIMIT;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_LOG_LIMIT) {
+      return { ok: false, error: `limit must be between 1 and ${MAX_AUDIT_LOG_LIMIT}` };
+    }
+  }
+
+  return { ok: true, value: { ...range.value, filters, cursor, limit } };
+}
@@ -0,0 +1,84 @@
+import { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { ContentfulStatusCode } from 'hono/utils/http-status';
+import { ApiErrorBody } from '../../../../packages/types/apiError';
+import { FieldError } from '../../../../packages/types/validation';
+
+const statusCodes: Partial<Record<number, string>> = {
+  400: 'bad_request',
+  401: 'unauthorized',
+  402: 'payment_required',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  413: 'payload_too_large',
+  500: 'internal_error',
+};
+
+interface ApiErrorOptions {
+  code?: string;
+  details?: FieldError[];
+}
+
+/**
+ * An HTTPException that carries an error code and field details, for errors
+ * thrown from middleware or helpers rather than returned by a route.
+ */
+export class ApiError extends HTTPException {
+  readonly code: string;
+  readonly details?: FieldError[];
+
+  constructor(status: ContentfulStatusCode, message: string, options: ApiErrorOptions = {}) {
+    super(status, { message });
+    this.code = options.code ?? statusCodes[status] ?? 'error';
+    this.details = options.details;
+  }
+}
+
+/**
+ * Returns an error response in the shape every route uses.
+ */
+export function apiError(c: Context, status: ContentfulStatusCode, message: string, options: ApiErrorOptions = {}) {
+  const body: ApiErrorBody = { error: message, code: options.code ?? statusCodes[status] ?? 'error' };
+  if (options.details) {
+    body.details = options.details;
+  }
+  return c.json(body, status);
+}
+
+function snakeToCamel(column: string) {
+  return column.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Turns whatever a route's try block threw into an error response: HTTP
+ * errors keep their status, a unique constraint violation becomes a 409
+ * naming the fields, a malformed body a 400, and anything else a 500 with
+ * `fallbackMessage`.
+ */
+export function handleRouteError(c: Context, error: unknown, fallbackMessage: string): ReturnType<typeof apiError> {
+  if (error instanceof ApiError) {
+    return apiError(c, error.status, error.message, { code: error.code, details: error.details });
+  }
+  if (error instanceof HTTPException) {
+    // Some carry a complete response, e.g. token rejections with their error code,
+    // always in the same envelope
+    return (error.res as ReturnType<typeof apiError> | undefined) ?? apiError(c, error.status, error.message);
+  }
+  // Thrown by c.req.json() for a body that is not JSON
+  if (error instanceof SyntaxError) {
+    return apiError(c, 400, 'Malformed JSON in request body');
+  }
+
+  // D1 reports e.g. "UNIQUE constraint failed: users.email: SQLITE_CONSTRAINT"
+  const unique = error instanceof Error && /UNIQUE constraint failed: ([\w.]+(?:, [\w.]+)*)/.exec(error.message);
+  if (unique) {
+    const fields = unique[1].split(', ').map((column) => snakeToCamel(column.split('.').pop()!));
+    return apiError(c, 409, `A record with this ${fields.join(' and ')} already exists`, {
+      details: fields.map((field) => ({ field, message: 'is already in use' })),
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return apiError(c, 500, fallbackMessage);
+}
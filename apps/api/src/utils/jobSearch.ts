@@ -0,0 +1,150 @@
+import { JobStatus, jobStatuses } from '../../../../packages/types/job';
+import { toSqlTimestamp } from './timestamps';
+
+export type JobSort = 'newest' | 'oldest' | 'salary_high' | 'salary_low' | 'relevance';
+
+export const jobSorts: JobSort[] = ['newest', 'oldest', 'salary_high', 'salary_low', 'relevance'];
+
+export interface JobSearch {
+  status: JobStatus;
+  match: string | null;
+  location: string | null;
+  salaryMin: number | null;
+  salaryMax: number | null;
+  postedAfter: string | null;
+  postedBefore: string | null;
+  sort: JobSort;
+  limit: number;
+  cursor: JobCursor | null;
+}
+
+export interface JobCursor {
+  value: string | number;
+  id: string;
+}
+
+// The job list's query parameters, all optional
+export interface JobSearchQuery {
+  q?: string;
+  status?: string;
+  location?: string;
+  salaryMin?: string;
+  salaryMax?: string;
+  postedAfter?: string;
+  postedBefore?: string;
+  sort?: string;
+  limit?: string;
+  cursor?: string;
+}
+
+type JobSearchResult = { ok: true; value: JobSearch } | { ok: false; error: string };
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * Turns free text into an FTS5 query that cannot fail to parse: every word is
+ * quoted and prefix-matched, and all words must appear.
+ */
+export function toFtsQuery(text: string): string | null {
+  const terms = text.match(/[\p{L}\p{N}]+/gu);
+  return terms ? terms.map((term) => `"${term}"*`).join(' ') : null;
+}
+
+/**
+ * Cursors are opaque to clients: the last row's sort value and ID, base64url-encoded.
+ */
+export function encodeCursor(cursor: JobCursor): string {
+  return btoa(JSON.stringify([cursor.value, cursor.id]))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function decodeCursor(value: string): JobCursor | null {
+  try {
+    const [sortValue, id] = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/')));
+    if ((typeof sortValue !== 'string' && typeof sortValue !== 'number') || typeof id !== 'string') {
+      return null;
+    }
+    return { value: sortValue, id };
+  } catch {
+    return null;
+  }
+}
+
+function parseAmount(value: string | undefined): number | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+function parseDate(value: string | undefined): string | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : toSqlTimestamp(date);
+}
+
+/**
+ * Validates the query string of the job list. Sorting defaults to relevance
+ * when there is a keyword search and to newest first otherwise.
+ */
+export function parseJobSearch(query: JobSearchQuery): JobSearchResult {
+  const match = query.q ? toFtsQuery(query.q) : null;
+
+  const salaryMin = parseAmount(query.salaryMin);
+  if (salaryMin === null) return { ok: false, error: 'salaryMin must be a non-negative number' };
+  const salaryMax = parseAmount(query.salaryMax);
+  if (salaryMax === null) return { ok: false, error: 'salaryMax must be a non-negative number' };
+  if (salaryMin !== undefined && salaryMax !== undefined && salaryMin > salaryMax) {
+    return { ok: false, error: 'salaryMin cannot be greater than salaryMax' };
+  }
+
+  const postedAfter = parseDate(query.postedAfter);
+  if (postedAfter === null) return { ok: false, error: 'postedAfter must be a valid date' };
+  const postedBefore = parseDate(query.postedBefore);
+  if (postedBefore === null) return { ok: false, error: 'postedBefore must be a valid date' };
+
+  const status = (query.status || 'active') as JobStatus;
+  if (!jobStatuses.includes(status)) {
+    return { ok: false, error: `status must be one of ${jobStatuses.join(', ')}` };
+  }
+
+  const sort = (query.sort || (match ? 'relevance' : 'newest')) as JobSort;
+  if (!jobSorts.includes(sort)) {
+    return { ok: false, error: `sort must be one of ${jobSorts.join(', ')}` };
+  }
+  if (sort === 'relevance' && !match) {
+    return { ok: false, error: 'sort=relevance requires a search query' };
+  }
+
+  let limit = DEFAULT_LIMIT;
+  if (query.limit !== undefined) {
+    limit = parseInt(query.limit, 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return { ok: false, error: `limit must be between 1 and ${MAX_LIMIT}` };
+    }
+  }
+
+  let cursor: JobCursor | null = null;
+  if (query.cursor) {
+    cursor = decodeCursor(query.cursor);
+    if (!cursor) return { ok: false, error: 'cursor is invalid' };
+  }
+
+  return {
+    ok: true,
+    value: {
+      status,
+      match,
+      location: query.location?.trim() || null,
+      salaryMin: salaryMin ?? null,
+      salaryMax: salaryMax ?? null,
+      postedAfter: postedAfter ?? null,
+      postedBefore: postedBefore ?? null,
+      sort,
+      limit,
+      cursor,
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { CreateJobInput, UpdateJobInput } from '../../../../packages/types/job';
+import { FieldError } from '../../../../packages/types/validation';
+import { toSqlTimestamp } from './timestamps';
+
+export interface ValidatedJob {
+  title?: string;
+  description?: string;
+  location?: string | null;
+  salaryMin?: number | null;
+  salaryMax?: number | null;
+  publishAt?: string | null;
+  expiresAt?: string | null;
+}
+
+type JobValidationResult = { ok: true; value: ValidatedJob } | { ok: false; error: FieldError };
+
+function parseDate(value: string | null | undefined): string | null | undefined {
+  return value ? toSqlTimestamp(new Date(value)) : value;
+}
+
+/**
+ * Finishes validating a job body that passed createJobSchema or
+ * updateJobSchema: checks the salary range and turns dates into SQL
+ * timestamps. Status changes on PATCH are checked against the job's current
+ * status by the route instead.
+ */
+export function validateJob(input: CreateJobInput | UpdateJobInput): JobValidationResult {
+  const { publishAt, expiresAt, ...fields } = input;
+
+  if (typeof fields.salaryMin === 'number' && typeof fields.salaryMax === 'number' && fields.salaryMin > fields.salaryMax) {
+    return { ok: false, error: { field: 'salaryMin', message: 'cannot be greater than salaryMax' } };
+  }
+
+  return { ok: true, value: { ...fields, publishAt: parseDate(publishAt), expiresAt: parseDate(expiresAt) } };
+}
@@ -0,0 +1,38 @@
+import { ScoreBucket, scoreBuckets } from '../../../../packages/types/score';
+import { DateRange, parseDateRange } from './timestamps';
+
+export interface ScoreHistoryOptions extends DateRange {
+  bucket: ScoreBucket;
+  category: string | null;
+}
+
+// The score history's query parameters, all optional
+export interface ScoreHistoryQuery {
+  from?: string;
+  to?: string;
+  bucket?: string;
+  category?: string;
+}
+
+type ScoreHistoryResult = { ok: true; value: ScoreHistoryOptions } | { ok: false; error: string };
+
+// SQLite expressions for the first day of the bucket a score falls in. A week
+// starts on the Monday on or before the date.
+export const bucketStarts: Record<ScoreBucket, string> = {
+  day: 'date(recorded_at)',
+  week: "date(recorded_at, '-6 days', 'weekday 1')",
+  month: "strftime('%Y-%m-01', recorded_at)",
+};
+
+export function parseScoreHistory(query: ScoreHistoryQuery): ScoreHistoryResult {
+  const range = parseDateRange(query);
+  if (!range.ok) return range;
+
+  const bucket = (query.bucket || 'week') as ScoreBucket;
+  if (!scoreBuckets.includes(bucket)) {
+    return { ok: false, error: `bucket must be one of ${scoreBuckets.join(', ')}` };
+  }
+
+  const category = query.category?.trim() || null;
+  return { ok: true, value: { ...range.value, bucket, category } };
+}
@@ -0,0 +1,54 @@
+import { toSqlTimestamp } from './timestamps';
+
+export interface ValidatedScore {
+  category: string;
+  score: number;
+  notes: string | null;
+  recordedAt: string | null;
+}
+
+type ScoreValidationResult =
+  | { ok: true; value: ValidatedScore }
+  | { ok: false; error: string };
+
+/**
+ * Validates a score entry from either a JSON body or a CSV row.
+ * Scores must be numeric and within 0-100.
+ */
+export function validateScore(input: {
+  category?: unknown;
+  score?: unknown;
+  notes?: unknown;
+  recordedAt?: unknown;
+}): ScoreValidationResult {
+  const category = typeof input.category === 'string' ? input.category.trim() : '';
+  if (!category) {
+    return { ok: false, error: 'category is required' };
+  }
+
+  const score =
+    typeof input.score === 'number'
+      ? input.score
+      : typeof input.score === 'string' && input.score.trim() !== ''
+        ? Number(input.score)
+        : NaN;
+  if (!Number.isFinite(score)) {
+    return { ok: false, error: 'score must be a number' };
+  }
+  if (score < 0 || score > 100) {
+    return { ok: false, error: 'score must be between 0 and 100' };
+  }
+
+  let recordedAt: string | null = null;
+  if (input.recordedAt !== undefined && input.recordedAt !== null && input.recordedAt !== '') {
+    const date = new Date(String(input.recordedAt));
+    if (isNaN(date.getTime())) {
+      return { ok: false, error: 'recordedAt must be a valid date' };
+    }
+    recordedAt = toSqlTimestamp(date);
+  }
+
+  const notes = typeof input.notes === 'string' && input.notes.trim() !== '' ? input.notes.trim() : null;
+
+  return { ok: true, value: { category, score, notes, recordedAt } };
+}
@@ -0,0 +1,50 @@
+/**
+ * Converts a date into SQLite's CURRENT_TIMESTAMP format (UTC, no "T" or zone)
+ * so rows we write sort alongside rows that used the column default.
+ */
+export function toSqlTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * Parses a timestamp read from D1. CURRENT_TIMESTAMP values carry no zone
+ * marker but are always UTC.
+ */
+export function fromSqlTimestamp(value: string): Date {
+  return new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+// An inclusive range of SQL timestamps; either end may be open
+export interface DateRange {
+  from: string | null;
+  to: string | null;
+}
+
+type DateRangeResult = { ok: true; value: DateRange } | { ok: false; error: string };
+
+/**
+ * Reads the optional `from` and `to` query dates. Both ends are inclusive, so
+ * a plain date as `to` covers the whole of that day.
+ */
+export function parseDateRange(query: { from?: string; to?: string }): DateRangeResult {
+  const range: DateRange = { from: null, to: null };
+
+  for (const field of ['from', 'to'] as const) {
+    const value = query[field];
+    if (!value) continue;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return { ok: false, error: `${field} must be a valid date` };
+    }
+    if (field === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      date.setUTCHours(23, 59, 59);
+    }
+    range[field] = toSqlTimestamp(date);
+  }
+
+  if (range.from && range.to && range.from > range.to) {
+    return { ok: false, error: 'from cannot be after to' };
+  }
+  return { ok: true, value: range };
+}
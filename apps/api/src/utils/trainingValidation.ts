@@ -0,0 +1,127 @@
+import {
+  TrainingIntensity,
+  WellnessMetricType,
+  trainingIntensities,
+  wellnessMetricRanges,
+  wellnessMetricTypes,
+} from '../../../../packages/types/training';
+import { DateRange, parseDateRange, toSqlTimestamp } from './timestamps';
+
+export interface ValidatedTrainingSession {
+  type?: string;
+  duration?: number;
+  intensity?: TrainingIntensity;
+  date?: string;
+  notes?: string | null;
+}
+
+export interface ValidatedWellnessMetric {
+  type: WellnessMetricType;
+  value: number;
+  recordedAt: string | null;
+  notes: string | null;
+}
+
+export interface WellnessFilter extends DateRange {
+  type: WellnessMetricType | null;
+}
+
+// The wellness list's query parameters, all optional
+export interface WellnessFilterQuery {
+  type?: string;
+  from?: string;
+  to?: string;
+}
+
+type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+function parseDate(value: unknown): string | null | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : toSqlTimestamp(date);
+}
+
+/**
+ * Validates a training session body. With `partial` set, only the fields that
+ * are present are checked, which is what PATCH needs.
+ */
+export function validateTrainingSession(
+  input: Record<string, unknown>,
+  partial = false
+): ValidationResult<ValidatedTrainingSession> {
+  const value: ValidatedTrainingSession = {};
+
+  if (input.type !== undefined || !partial) {
+    if (typeof input.type !== 'string' || input.type.trim() === '') {
+      return { ok: false, error: 'type is required' };
+    }
+    value.type = input.type.trim();
+  }
+
+  if (input.duration !== undefined || !partial) {
+    if (typeof input.duration !== 'number' || !Number.isFinite(input.duration) || input.duration <= 0) {
+      return { ok: false, error: 'duration must be a positive number of minutes' };
+    }
+    value.duration = Math.round(input.duration);
+  }
+
+  if (input.intensity !== undefined || !partial) {
+    if (!trainingIntensities.includes(input.intensity as TrainingIntensity)) {
+      return { ok: false, error: `intensity must be one of ${trainingIntensities.join(', ')}` };
+    }
+    value.intensity = input.intensity as TrainingIntensity;
+  }
+
+  const date = parseDate(input.date);
+  if (date === null) {
+    return { ok: false, error: 'date must be a valid date' };
+  }
+  if (date !== undefined) value.date = date;
+
+  if (input.notes !== undefined) {
+    value.notes = typeof input.notes === 'string' && input.notes.trim() !== '' ? input.notes.trim() : null;
+  }
+
+  return { ok: true, value };
+}
+
+/**
+ * Validates a single wellness metric against the range for its type.
+ */
+export function validateWellnessMetric(input: Record<string, unknown>): ValidationResult<ValidatedWellnessMetric> {
+  const type = input.type as WellnessMetricType;
+  const range = wellnessMetricRanges[type];
+  if (!range) {
+    return { ok: false, error: `type must be one of ${Object.keys(wellnessMetricRanges).join(', ')}` };
+  }
+
+  if (typeof input.value !== 'number' || !Number.isFinite(input.value)) {
+    return { ok: false, error: `${type} must be a number` };
+  }
+  if (input.value < range.min || input.value > range.max) {
+    return { ok: false, error: `${type} must be between ${range.min} and ${range.max}` };
+  }
+
+  const recordedAt = parseDate(input.recordedAt);
+  if (recordedAt === null) {
+    return { ok: false, error: 'recordedAt must be a valid date' };
+  }
+
+  const notes = typeof input.notes === 'string' && input.notes.trim() !== '' ? input.notes.trim() : null;
+
+  return { ok: true, value: { type, value: input.value, recordedAt: recordedAt ?? null, notes } };
+}
+
+/**
+ * Parses the wellness list's query: an optional metric type and date range.
+ */
+export function parseWellnessFilter(query: WellnessFilterQuery): ValidationResult<WellnessFilter> {
+  const range = parseDateRange(query);
+  if (!range.ok) return range;
+
+  if (query.type && !wellnessMetricTypes.includes(query.type as WellnessMetricType)) {
+    return { ok: false, error: `type must be one of ${wellnessMetricTypes.join(', ')}` };
+  }
+
+  return { ok: true, value: { ...range.value, type: (query.type as WellnessMetricType) || null } };
+}
@@ -0,0 +1,72 @@
+/**
+ * Keeps the users table in line with Clerk, which owns sign-up, emails and
+ * names. Rows are keyed by the Clerk user ID.
+ */
+
+export interface ClerkProfile {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * Creates or refreshes a user's row from their Clerk profile. `clerkUpdatedAt`
+ * is Clerk's own change time in milliseconds: Clerk webhooks may arrive out of
+ * order, so a profile older than the one last applied is ignored, as is any
+ * profile of a deleted user. Returns false when the email already belongs to
+ * another user, which the caller has to resolve by hand.
+ */
+export async function upsertUser(db: D1Database, profile: ClerkProfile, clerkUpdatedAt: number): Promise<boolean> {
+  const owner = await db.prepare(
+    'SELECT id FROM users WHERE email = ? AND id != ?'
+  ).bind(profile.email, profile.id).first<{ id: string }>();
+
+  if (owner) {
+    return false;
+  }
+
+  await db.prepare(
+    `INSERT INTO users (id, email, first_name, last_name, clerk_updated_at) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET
+       email = excluded.email,
+       first_name = excluded.first_name,
+       last_name = excluded.last_name,
+       clerk_updated_at = excluded.clerk_updated_at,
+       updated_at = CURRENT_TIMESTAMP
+     WHERE users.deleted_at IS NULL
+       AND (users.clerk_updated_at IS NULL OR users.clerk_updated_at <= excluded.clerk_updated_at)`
+  ).bind(profile.id, profile.email, profile.firstName, profile.lastName, clerkUpdatedAt).run();
+
+  return true;
+}
+
+/**
+ * Creates the row for a signed-in user the webhook has not told us about yet.
+ * Never overwrites an existing row, so the webhook's data always wins.
+ */
+export async function provisionUser(db: D1Database, profile: ClerkProfile): Promise<void> {
+  await db.prepare(
+    `INSERT INTO users (id, email, first_name, last_name) VALUES (?, ?, ?, ?)
+     ON CONFLICT DO NOTHING`
+  ).bind(profile.id, profile.email, profile.firstName, profile.lastName).run();
+}
+
+/**
+ * Removes a deleted Clerk user from every organization and team and scrubs
+ * their personal details. The row itself stays so the scores, payments and
+ * job posts that reference it remain intact.
+ */
+export async function removeUser(db: D1Database, userId: string): Promise<void> {
+  await db.batch([
+    db.prepare('DELETE FROM team_members WHERE user_id = ?').bind(userId),
+    db.prepare('DELETE FROM organization_members WHERE user_id = ?').bind(userId),
+    db.prepare(
+      `UPDATE users SET
+         email = ?, first_name = 'Deleted', last_name = 'User', role = 'viewer',
+         avatar = NULL, bio = NULL, phone = NULL, sport = NULL,
+         deleted_at = COALESCE(deleted_at, CURRENT_TIMESTAMP), updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`
+    ).bind(`deleted+${userId}@users.invalid`, userId),
+  ]);
+}
@@ -0,0 +1,95 @@
+import React from 'react';
+import { ScoreBucket, ScoreHistoryPoint } from '../../../../packages/types/score';
+
+interface ScoreChartProps {
+  category: string;
+  points: ScoreHistoryPoint[];
+  bucket: ScoreBucket;
+}
+
+// Chart geometry in SVG units; the chart scales to its container's width
+const WIDTH = 320;
+const HEIGHT = 160;
+const PLOT = { left: 32, right: WIDTH - 12, top: 12, bottom: HEIGHT - 24 };
+const GRID_VALUES = [0, 25, 50, 75, 100];
+
+const BUCKET_LABELS: Record<ScoreBucket, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+const formatPeriod = (period: string, bucket: ScoreBucket) =>
+  new Date(`${period}T00:00:00Z`).toLocaleDateString(undefined, {
+    timeZone: 'UTC',
+    day: bucket === 'month' ? undefined : 'numeric',
+    month: 'short',
+    year: bucket === 'month' ? 'numeric' : undefined,
+  });
+
+const ScoreChart: React.FC<ScoreChartProps> = ({
+  category,
+  points,
+  bucket,
+}) => {
+  // Points are placed by date, so gaps between buckets show as gaps in time
+  const times = points.map((point) => Date.parse(point.period));
+  const first = Math.min(...times);
+  const span = Math.max(...times) - first;
+
+  const x = (time: number) =>
+    span === 0 ? (PLOT.left + PLOT.right) / 2 : PLOT.left + ((time - first) / span) * (PLOT.right - PLOT.left);
+  const y = (value: number) => PLOT.bottom - (value / 100) * (PLOT.bottom - PLOT.top);
+
+  const coordinates = points.map((point, index) => ({ point, cx: x(times[index]), cy: y(point.average) }));
+  const latest = points[points.length - 1];
+
+  return (
+    <div className="score-chart" data-testid="score-chart">
+      <div className="score-chart__header">
+        <h3 className="score-chart__category">{category}</h3>
+        <span className="score-chart__bucket">{BUCKET_LABELS[bucket]} average</span>
+      </div>
+
+      <svg
+        className="score-chart__plot"
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        role="img"
+        aria-label={`${category}: ${points.length} ${bucket}s, latest average ${latest.average}`}
+      >
+        {GRID_VALUES.map((value) => (
+          <g key={value}>
+            <line className="score-chart__grid" x1={PLOT.left} x2={PLOT.right} y1={y(value)} y2={y(value)} />
+            <text className="score-chart__axis-label" x={PLOT.left - 6} y={y(value)} textAnchor="end" dominantBaseline="middle">
+              {value}
+            </text>
+          </g>
+        ))}
+
+        <polyline
+          className="score-chart__line"
+          points={coordinates.map(({ cx, cy }) => `${cx},${cy}`).join(' ')}
+        />
+
+        {coordinates.map(({ point, cx, cy }) => (
+          <circle key={point.period} className="score-chart__point" cx={cx} cy={cy} r={3}>
+            <title>
+              {`${formatPeriod(point.period, bucket)}: ${point.average} (${point.count} ${point.count === 1 ? 'score' : 'scores'}, ${point.min}–${point.max})`}
+            </title>
+          </circle>
+        ))}
+
+        <text className="score-chart__axis-label" x={PLOT.left} y={HEIGHT - 6} textAnchor="start">
+          {formatPeriod(points[0].period, bucket)}
+        </text>
+        {points.length > 1 && (
+          <text className="score-chart__axis-label" x={PLOT.right} y={HEIGHT - 6} textAnchor="end">
+            {formatPeriod(latest.period, bucket)}
+          </text>
+        )}
+      </svg>
+    </div>
+  );
+};
+
+export default ScoreChart;
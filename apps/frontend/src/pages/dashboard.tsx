@@ -1,31 +1,37 @@
 import React from 'react';
+import { ApiClient, ScoreSummary } from '../../../../packages/api-client';
+import { ScoreBucket, ScoreHistory } from '../../../../packages/types/score';
+import ScoreChart from '../components/ScoreChart';
 import ScorePanel from '../components/ScorePanel';
 
 interface DashboardProps {
   userId: string;
+  // Created once by the app with Clerk's getToken, so requests carry the session
+  client: ApiClient;
 }
 
-interface Score {
-  category: string;
-  value: number;
-  trend: 'up' | 'down' | 'stable';
-  lastUpdated: string;
-}
+// Ranges the progress charts can show, each with a bucket that keeps the points readable
+const HISTORY_RANGES: { id: string; label: string; days: number | null; bucket: ScoreBucket }[] = [
+  { id: '30d', label: '30 days', days: 30, bucket: 'day' },
+  { id: '90d', label: '90 days', days: 90, bucket: 'week' },
+  { id: '1y', label: '1 year', days: 365, bucket: 'week' },
+  { id: 'all', label: 'All time', days: null, bucket: 'month' },
+];
 
-const Dashboard: React.FC<DashboardProps> = ({ userId }) => {
-  const [scores, setScores] = React.useState<Score[]>([]);
+const Dashboard: React.FC<DashboardProps> = ({ userId, client }) => {
+  const [scores, setScores] = React.useState<ScoreSummary[]>([]);
   const [loading, setLoading] = React.useState(true);
   const [error, setError] = React.useState<string | null>(null);
+  const [range, setRange] = React.useState(HISTORY_RANGES[1]);
+  const [history, setHistory] = React.useState<ScoreHistory | null>(null);
+  const [historyLoading, setHistoryLoading] = React.useState(true);
+  const [historyError, setHistoryError] = React.useState<string | null>(null);
 
   React.useEffect(() => {
     const fetchScores = async () => {
       try {
         setLoading(true);
-        const response = await fetch(`/api/users/${userId}/scores`);
-        if (!response.ok) {
-          throw new Error('Failed to fetch scores');
-        }
-        const data = await response.json();
+        const data = await client.users.scores(userId);
         setScores(data.scores);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred');
@@ -35,7 +41,33 @@ const Dashboard: React.FC<DashboardProps> = ({ userId }) => {
     };
 
     fetchScores();
-  }, [userId]);
+  }, [userId, client]);
+
+  // Reloaded on its own when the range changes, so the rest of the page stays put
+  React.useEffect(() => {
+    let current = true;
+
+    const fetchHistory = async () => {
+      try {
+        setHistoryLoading(true);
+        setHistoryError(null);
+        const from = range.days === null
+          ? undefined
+          : new Date(Date.now() - range.days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        const data = await client.users.scoreHistory(userId, { from, bucket: range.bucket });
+        if (current) setHistory(data);
+      } catch (err) {
+        if (current) setHistoryError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        if (current) setHistoryLoading(false);
+      }
+    };
+
+    fetchHistory();
+    return () => {
+      current = false;
+    };
+  }, [userId, client, range]);
 
   if (loading) {
     return (
@@ -82,6 +114,45 @@ const Dashboard: React.FC<DashboardProps> = ({ userId }) => {
           </div>
         </section>
 
+        {scores.length > 0 && (
+          <section className="dashboard__progress">
+            <div className="dashboard__progress-header">
+              <h2 className="dashboard__section-title">Progress</h2>
+              <div className="dashboard__ranges" role="group" aria-label="Time range">
+                {HISTORY_RANGES.map((option) => (
+                  <button
+                    key={option.id}
+                    className={`dashboard__range ${option.id === range.id ? 'dashboard__range--active' : ''}`}
+                    aria-pressed={option.id === range.id}
+                    onClick={() => setRange(option)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {historyError ? (
+              <p className="dashboard__error-message">{historyError}</p>
+            ) : (
+              <div className={`dashboard__charts-grid ${historyLoading ? 'dashboard__charts-grid--loading' : ''}`}>
+                {history?.categories.map((series) => (
+                  <ScoreChart
+                    key={series.category}
+                    category={series.category}
+                    points={series.points}
+                    bucket={history.bucket}
+                  />
+                ))}
+              </div>
+            )}
+
+            {!historyLoading && !historyError && history?.categories.length === 0 && (
+              <p className="dashboard__progress-empty">No scores recorded in this range.</p>
+            )}
+          </section>
+        )}
+
         {scores.length === 0 && (
           <div className="dashboard__empty">
             <p>No scores available yet. Complete some assessments to see your progress!</p>
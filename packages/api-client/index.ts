@@ -0,0 +1,176 @@
+import { hc } from 'hono/client';
+import type { ClientResponse, InferRequestType } from 'hono/client';
+import type { AppType } from '../../apps/api/src/index';
+import { ApiErrorBody } from '../types/apiError';
+import { CreateJobApplicationInput, UpdateJobApplicationStageInput } from '../types/jobApplication';
+import { CreateJobInput, UpdateJobInput } from '../types/job';
+import { BulkScoreResult, BulkScoreRow, CreateScoreInput } from '../types/score';
+import { CreateUserInput, UpdateUserInput } from '../types/user';
+import { FieldError } from '../types/validation';
+
+export interface ApiClientOptions {
+  // Where the API is served from; defaults to the page's own origin
+  baseUrl?: string;
+  // Returns the bearer token for each request: Clerk's getToken() in the browser, an API key in scripts
+  getToken?: () => string | null | undefined | Promise<string | null | undefined>;
+  // Sent as X-Organization-Id, for users who belong to several organizations
+  organizationId?: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * A failed API call, carrying the error envelope every route returns.
+ */
+export class ApiClientError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details: FieldError[];
+
+  constructor(status: number, body: ApiErrorBody) {
+    super(body.error);
+    this.name = 'ApiClientError';
+    this.status = status;
+    this.code = body.code;
+    this.details = body.details ?? [];
+  }
+}
+
+// A route's JSON body when it succeeds, i.e. whatever it returns besides the error envelope
+type SuccessBody<R> = R extends ClientResponse<infer Body, number, 'json'> ? Exclude<Body, ApiErrorBody> : never;
+
+// Just what reading an error needs, so plain fetch responses work too
+interface ErrorResponse {
+  status: number;
+  json(): Promise<unknown>;
+}
+
+async function toClientError(response: ErrorResponse): Promise<ApiClientError> {
+  const body = await response.json().catch(() => null) as Partial<ApiErrorBody> | null;
+  return new ApiClientError(response.status, {
+    error: typeof body?.error === 'string' ? body.error : `Request failed with status ${response.status}`,
+    code: typeof body?.code === 'string' ? body.code : 'error',
+    details: Array.isArray(body?.details) ? body.details : undefined,
+  });
+}
+
+async function json<R extends ClientResponse<unknown, number, string>>(request: Promise<R>): Promise<SuccessBody<R>> {
+  const response = await request;
+  if (!response.ok) {
+    throw await toClientError(response);
+  }
+  return response.json() as Promise<SuccessBody<R>>;
+}
+
+async function file(request: Promise<ClientResponse<unknown, number, string>>): Promise<Blob> {
+  const response = await request;
+  if (!response.ok) {
+    throw await toClientError(response);
+  }
+  return response.blob();
+}
+
+// An import where every row failed answers 400 with the same per-row report as a partial one
+async function importReport(request: Promise<ClientResponse<unknown, number, string>>): Promise<BulkScoreResult> {
+  const response = await request;
+  if (!response.ok && response.status !== 400) {
+    throw await toClientError(response);
+  }
+  const body = await response.json() as BulkScoreResult | ApiErrorBody;
+  if ('error' in body) {
+    throw new ApiClientError(response.status, body);
+  }
+  return body;
+}
+
+/**
+ * Creates a client for apps/api. Request and response types come from the
+ * API's own route definitions (AppType), so a route change that breaks a
+ * caller fails to compile rather than at runtime. The methods below unwrap
+ * responses and throw ApiClientError on failure; `api` exposes every route
+ * as Hono's raw RPC client.
+ */
+export function createApiClient(options: ApiClientOptions = {}) {
+  const api = hc<AppType>(options.baseUrl ?? globalThis.location?.origin ?? '', {
+    fetch: options.fetch,
+    headers: async (): Promise<Record<string, string>> => {
+      const headers: Record<string, string> = {};
+      const token = await options.getToken?.();
+      if (token) {
+        headers.Authorization = `Bearer ${token}`;
+      }
+      if (options.organizationId) {
+        headers['X-Organization-Id'] = options.organizationId;
+      }
+      return headers;
+    },
+  }).api;
+
+  return {
+    api,
+
+    users: {
+      list: () => json(api.users.$get()),
+      get: (id: string) => json(api.users[':id'].$get({ param: { id } })),
+      create: (input: CreateUserInput) => json(api.users.$post({ json: input })),
+      update: (id: string, input: UpdateUserInput) => json(api.users[':id'].$patch({ param: { id }, json: input })),
+      remove: (id: string) => json(api.users[':id'].$delete({ param: { id } })),
+      scores: (id: string) => json(api.users[':id'].scores.$get({ param: { id } })),
+      scoreHistory: (id: string, query: ScoreHistoryQuery = {}) =>
+        json(api.users[':id'].scores.history.$get({ param: { id }, query })),
+      recordScore: (id: string, input: CreateScoreInput) =>
+        json(api.users[':id'].scores.$post({ param: { id }, json: input })),
+    },
+
+    scores: {
+      // Rows may also be sent as CSV text with a header row; failed rows are listed in the report
+      import: (rows: BulkScoreRow[] | string) =>
+        importReport(api.scores.import.$post(undefined, {
+          headers: { 'Content-Type': typeof rows === 'string' ? 'text/csv' : 'application/json' },
+          init: { body: typeof rows === 'string' ? rows : JSON.stringify(rows) },
+        })),
+    },
+
+    jobs: {
+      list: (query: JobListQuery = {}) => json(api.jobs.$get({ query })),
+      get: (id: string) => json(api.jobs[':id'].$get({ param: { id } })),
+      create: (input: CreateJobInput) => json(api.jobs.$post({ json: input })),
+      update: (id: string, input: UpdateJobInput) => json(api.jobs[':id'].$patch({ param: { id }, json: input })),
+      archive: (id: string) => json(api.jobs[':id'].$delete({ param: { id } })),
+      apply: (id: string, input: CreateJobApplicationInput) =>
+        json(api.jobs[':id'].applications.$post({ param: { id }, json: input })),
+      myApplications: () => json(api.jobs.applications.$get()),
+      applications: (id: string, query: ApplicationListQuery = {}) =>
+        json(api.jobs[':id'].applications.$get({ param: { id }, query })),
+      moveApplication: (id: string, applicationId: string, input: UpdateJobApplicationStageInput) =>
+        json(api.jobs[':id'].applications[':applicationId'].$patch({ param: { id, applicationId }, json: input })),
+    },
+
+    billing: {
+      history: (userId: string, period: BillingPeriod = {}) =>
+        json(api.billing.history[':userId'].$get({ param: { userId }, query: period })),
+      statement: (userId: string, format: 'csv' | 'pdf', period: BillingPeriod = {}) =>
+        file(format === 'csv'
+          ? api.billing.history[':userId']['statement.csv'].$get({ param: { userId }, query: period })
+          : api.billing.history[':userId']['statement.pdf'].$get({ param: { userId }, query: period })),
+    },
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+type Api = ReturnType<typeof hc<AppType>>['api'];
+
+// Filters, sorting and paging for the job list
+export type JobListQuery = InferRequestType<Api['jobs']['$get']>['query'];
+
+// Optionally just the applications in one stage
+export type ApplicationListQuery = InferRequestType<Api['jobs'][':id']['applications']['$get']>['query'];
+
+// Date range, bucket size and category for an athlete's score history
+export type ScoreHistoryQuery = InferRequestType<Api['users'][':id']['scores']['history']['$get']>['query'];
+
+// Optional `from` and `to` dates for billing history and statements
+export type BillingPeriod = InferRequestType<Api['billing']['history'][':userId']['$get']>['query'];
+
+// An athlete's latest score in each category, as GET /api/users/:id/scores returns it
+export type ScoreSummary = Awaited<ReturnType<ApiClient['users']['scores']>>['scores'][number];
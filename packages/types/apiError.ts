@@ -0,0 +1,14 @@
+import { FieldError } from './validation';
+
+/**
+ * The body of every error response. `code` is stable for clients to branch
+ * on: the HTTP status as a word ("bad_request", "not_found", "conflict", ...),
+ * "validation_failed" for a body that failed its schema, or a more specific
+ * code such as "expired". `details` lists the fields at fault, when the
+ * error concerns particular fields.
+ */
+export interface ApiErrorBody {
+  error: string;
+  code: string;
+  details?: FieldError[];
+}
@@ -0,0 +1,38 @@
+import { RolePermissions, rolePermissions } from './roles';
+import { Schema } from './validation';
+
+// API key scopes are the RolePermissions a key grants; a key has no others
+export type ApiKeyScope = keyof RolePermissions;
+
+export const apiKeyScopes = Object.keys(rolePermissions.admin) as ApiKeyScope[];
+
+export interface ApiKey {
+  id: string;
+  organizationId: string;
+  name: string;
+  // The first characters of the key, to tell keys apart; the key itself is never stored
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  createdBy: string;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string;
+}
+
+export const createApiKeySchema: Schema<CreateApiKeyInput> = {
+  name: { type: 'string', maxLength: 100 },
+  scopes: {
+    type: 'array',
+    items: { type: 'enum', values: apiKeyScopes },
+    minItems: 1,
+    description: 'Permissions the key grants',
+  },
+  expiresAt: { type: 'string', format: 'date', optional: true },
+};
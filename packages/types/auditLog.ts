@@ -0,0 +1,25 @@
+// A changed field as it was before and after the write; null when the entity
+// did not exist before (created) or no longer exists after (deleted).
+export interface AuditFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export type AuditChanges = Record<string, AuditFieldChange>;
+
+export interface AuditLogEntry {
+  id: number;
+  organizationId: string | null;
+  actorId: string | null;
+  apiKeyId: string | null;
+  // e.g. "user.role_change", or "<METHOD> <route>" for writes no route described
+  action: string;
+  entityType: string | null;
+  entityId: string | null;
+  changes: AuditChanges | null;
+  method: string;
+  path: string;
+  status: number;
+  ipAddress: string | null;
+  createdAt: Date;
+}
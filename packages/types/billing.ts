@@ -0,0 +1,64 @@
+export type BillingStatus =
+  | 'pending'
+  | 'completed'
+  | 'failed'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'disputed'
+  | 'dispute_lost';
+
+export const billingStatuses: BillingStatus[] = [
+  'pending',
+  'completed',
+  'failed',
+  'partially_refunded',
+  'refunded',
+  'disputed',
+  'dispute_lost',
+];
+
+// The statuses a billing record may move to from each status. A dispute that
+// is won returns the record to the status it had before the dispute.
+export const billingStatusTransitions: Record<BillingStatus, BillingStatus[]> = {
+  pending: ['completed', 'failed'],
+  failed: ['completed'],
+  completed: ['partially_refunded', 'refunded', 'disputed'],
+  partially_refunded: ['partially_refunded', 'refunded', 'disputed'],
+  refunded: [],
+  disputed: ['completed', 'partially_refunded', 'dispute_lost'],
+  dispute_lost: [],
+};
+
+export interface BillingRecord {
+  id: string;
+  organizationId: string | null;
+  userId: string | null;
+  amount: number;
+  refundedAmount: number;
+  currency: string;
+  status: BillingStatus;
+  stripePaymentId: string | null;
+  stripeInvoiceId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface BillingRecordHistoryEntry {
+  id: string;
+  billingRecordId: string;
+  status: BillingStatus;
+  // The amount the change concerns, e.g. the total refunded so far or the disputed amount
+  amount: number | null;
+  stripeEventId: string | null;
+  note: string | null;
+  createdAt: Date;
+}
+
+// Amounts in the currency's smallest unit. `refunded` counts everything paid
+// back, whether refunded or reversed by a lost dispute.
+export interface BillingTotal {
+  currency: string;
+  charged: number;
+  refunded: number;
+  net: number;
+}
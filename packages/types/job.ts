@@ -0,0 +1,78 @@
+import { Schema } from './validation';
+
+export type JobStatus = 'draft' | 'scheduled' | 'active' | 'closed' | 'archived';
+
+export const jobStatuses: JobStatus[] = ['draft', 'scheduled', 'active', 'closed', 'archived'];
+
+// The statuses a job may move to from each status; archived jobs are final
+export const jobStatusTransitions: Record<JobStatus, JobStatus[]> = {
+  draft: ['scheduled', 'active', 'archived'],
+  scheduled: ['draft', 'active', 'archived'],
+  active: ['closed', 'archived'],
+  closed: ['active', 'archived'],
+  archived: [],
+};
+
+// Statuses anyone on the job board can see; the rest only their poster and admins
+export const publicJobStatuses: JobStatus[] = ['active', 'closed'];
+
+export interface Job {
+  id: string;
+  title: string;
+  description: string;
+  location?: string;
+  salaryMin?: number;
+  salaryMax?: number;
+  postedBy: string;
+  status: JobStatus;
+  publishAt?: Date;
+  expiresAt?: Date;
+  archivedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateJobInput {
+  title: string;
+  description: string;
+  location?: string;
+  salaryMin?: number;
+  salaryMax?: number;
+  // 'draft' keeps the job unpublished; otherwise it goes live now or at publishAt
+  status?: 'draft' | 'active';
+  publishAt?: string;
+  expiresAt?: string;
+}
+
+export interface UpdateJobInput {
+  title?: string;
+  description?: string;
+  location?: string | null;
+  salaryMin?: number | null;
+  salaryMax?: number | null;
+  status?: JobStatus;
+  publishAt?: string | null;
+  expiresAt?: string | null;
+}
+
+export const createJobSchema: Schema<CreateJobInput> = {
+  title: { type: 'string', maxLength: 200 },
+  description: { type: 'string', maxLength: 20000 },
+  location: { type: 'string', maxLength: 200, optional: true },
+  salaryMin: { type: 'number', min: 0, optional: true },
+  salaryMax: { type: 'number', min: 0, optional: true },
+  status: { type: 'enum', values: ['draft', 'active'], optional: true },
+  publishAt: { type: 'string', format: 'date', optional: true },
+  expiresAt: { type: 'string', format: 'date', optional: true },
+};
+
+export const updateJobSchema: Schema<UpdateJobInput> = {
+  title: { type: 'string', maxLength: 200, optional: true },
+  description: { type: 'string', maxLength: 20000, optional: true },
+  location: { type: 'string', maxLength: 200, optional: true, nullable: true },
+  salaryMin: { type: 'number', min: 0, optional: true, nullable: true },
+  salaryMax: { type: 'number', min: 0, optional: true, nullable: true },
+  status: { type: 'enum', values: jobStatuses, optional: true },
+  publishAt: { type: 'string', format: 'date', optional: true, nullable: true },
+  expiresAt: { type: 'string', format: 'date', optional: true, nullable: true },
+};
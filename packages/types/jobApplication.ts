@@ -0,0 +1,44 @@
+import { Schema } from './validation';
+
+export type ApplicationStage = 'submitted' | 'reviewing' | 'interview' | 'offer' | 'rejected' | 'hired';
+
+export const applicationStages: ApplicationStage[] = ['submitted', 'reviewing', 'interview', 'offer', 'rejected', 'hired'];
+
+// The stages a poster may move an application to from each stage; rejected and hired are final
+export const applicationStageTransitions: Record<ApplicationStage, ApplicationStage[]> = {
+  submitted: ['reviewing', 'rejected'],
+  reviewing: ['interview', 'rejected'],
+  interview: ['offer', 'rejected'],
+  offer: ['hired', 'rejected'],
+  rejected: [],
+  hired: [],
+};
+
+export interface JobApplication {
+  id: string;
+  jobId: string;
+  applicantId: string;
+  coverNote: string;
+  profileUrl: string;
+  stage: ApplicationStage;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateJobApplicationInput {
+  coverNote: string;
+  profileUrl: string;
+}
+
+export interface UpdateJobApplicationStageInput {
+  stage: ApplicationStage;
+}
+
+export const createJobApplicationSchema: Schema<CreateJobApplicationInput> = {
+  coverNote: { type: 'string', maxLength: 5000 },
+  profileUrl: { type: 'string', format: 'url', maxLength: 2048 },
+};
+
+export const updateJobApplicationStageSchema: Schema<UpdateJobApplicationStageInput> = {
+  stage: { type: 'enum', values: applicationStages },
+};
@@ -0,0 +1,53 @@
+import { Schema } from './validation';
+
+// Organization roles are separate from the global Role: an org admin manages
+// one club, while a global admin manages every club on the deployment.
+export type OrganizationRole = 'org_admin' | 'member';
+
+export const organizationRoles: OrganizationRole[] = ['org_admin', 'member'];
+
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+  clerkOrgId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OrganizationMember {
+  organizationId: string;
+  userId: string;
+  role: OrganizationRole;
+  createdAt: Date;
+}
+
+export interface CreateOrganizationInput {
+  name: string;
+  slug: string;
+  clerkOrgId?: string;
+}
+
+export interface AddOrganizationMemberInput {
+  userId: string;
+  role?: OrganizationRole;
+}
+
+export interface UpdateOrganizationMemberInput {
+  role: OrganizationRole;
+}
+
+export const createOrganizationSchema: Schema<CreateOrganizationInput> = {
+  name: { type: 'string', maxLength: 200 },
+  slug: { type: 'string', maxLength: 100, description: 'Lowercase letters, digits and hyphens' },
+  clerkOrgId: { type: 'string', maxLength: 255, optional: true },
+};
+
+export const addOrganizationMemberSchema: Schema<AddOrganizationMemberInput> = {
+  userId: { type: 'string', maxLength: 255 },
+  role: { type: 'enum', values: organizationRoles, optional: true },
+};
+
+export const updateOrganizationMemberSchema: Schema<UpdateOrganizationMemberInput> = {
+  role: { type: 'enum', values: organizationRoles },
+};
@@ -0,0 +1,92 @@
+import { Schema } from './validation';
+
+export type RulePriority = 'high' | 'medium' | 'low';
+
+export const rulePriorities: RulePriority[] = ['high', 'medium', 'low'];
+
+export type RuleOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq';
+
+export const ruleOperators: RuleOperator[] = ['lt', 'lte', 'gt', 'gte', 'eq'];
+
+// Athlete-wide aggregates; wellness values are 7-day averages
+export const athleteRuleMetrics = [
+  'overallScore',
+  'training.sessionsLast7Days',
+  'training.acuteLoad',
+  'training.chronicLoad',
+  'training.acwr',
+  'training.monotony',
+  'training.strain',
+  'wellness.sleep',
+  'wellness.nutrition',
+  'wellness.recovery',
+  'wellness.stress',
+] as const;
+
+// Per-category values; a rule using any of these is evaluated once per category
+export const categoryRuleMetrics = ['category.score', 'category.slope', 'category.volatility'] as const;
+
+export type RuleMetric = (typeof athleteRuleMetrics)[number] | (typeof categoryRuleMetrics)[number];
+
+export interface RuleCondition {
+  metric: RuleMetric;
+  operator: RuleOperator;
+  value: number;
+}
+
+/**
+ * A recommendation fires when all of its conditions hold. `category`, `title`
+ * and `description` are templates: `{{category}}` and `{{<metric>}}` are
+ * replaced with the values the rule was evaluated against.
+ */
+export interface RecommendationRule {
+  id: string;
+  name: string;
+  sport?: string | null;
+  categoryFilter?: string | null;
+  conditions: RuleCondition[];
+  priority: RulePriority;
+  category: string;
+  title: string;
+  description: string;
+  enabled: boolean;
+}
+
+export type CreateRecommendationRuleInput = Omit<RecommendationRule, 'id' | 'enabled'> & {
+  enabled?: boolean;
+};
+
+export type UpdateRecommendationRuleInput = Partial<CreateRecommendationRuleInput>;
+
+export const ruleConditionSchema: Schema<RuleCondition> = {
+  metric: { type: 'enum', values: [...athleteRuleMetrics, ...categoryRuleMetrics] },
+  operator: { type: 'enum', values: ruleOperators },
+  value: { type: 'number' },
+};
+
+const templateDescription = 'Template; {{category}} and {{<metric>}} are filled in';
+
+export const createRecommendationRuleSchema: Schema<CreateRecommendationRuleInput> = {
+  name: { type: 'string', maxLength: 200 },
+  sport: { type: 'string', maxLength: 100, optional: true, nullable: true },
+  categoryFilter: { type: 'string', maxLength: 100, optional: true, nullable: true },
+  conditions: { type: 'array', items: { type: 'object', schema: ruleConditionSchema }, minItems: 1, maxItems: 20 },
+  priority: { type: 'enum', values: rulePriorities },
+  category: { type: 'string', maxLength: 200, description: templateDescription },
+  title: { type: 'string', maxLength: 200, description: templateDescription },
+  description: { type: 'string', maxLength: 2000, description: templateDescription },
+  enabled: { type: 'boolean', optional: true },
+};
+
+// Every field is optional; sport and categoryFilter may be cleared with null
+export const updateRecommendationRuleSchema: Schema<UpdateRecommendationRuleInput> = {
+  name: { type: 'string', maxLength: 200, optional: true },
+  sport: { type: 'string', maxLength: 100, optional: true, nullable: true },
+  categoryFilter: { type: 'string', maxLength: 100, optional: true, nullable: true },
+  conditions: { type: 'array', items: { type: 'object', schema: ruleConditionSchema }, minItems: 1, maxItems: 20, optional: true },
+  priority: { type: 'enum', values: rulePriorities, optional: true },
+  category: { type: 'string', maxLength: 200, optional: true, description: templateDescription },
+  title: { type: 'string', maxLength: 200, optional: true, description: templateDescription },
+  description: { type: 'string', maxLength: 2000, optional: true, description: templateDescription },
+  enabled: { type: 'boolean', optional: true },
+};
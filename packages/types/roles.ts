@@ -1,11 +1,16 @@
 export type Role = 'admin' | 'coach' | 'athlete' | 'viewer';
 
+export const roles: Role[] = ['admin', 'coach', 'athlete', 'viewer'];
+
 export interface RolePermissions {
   canManageUsers: boolean;
   canViewDashboard: boolean;
   canEditProfile: boolean;
   canAccessJobBoard: boolean;
   canManageBilling: boolean;
+  canManageScores: boolean;
+  canManageRecommendations: boolean;
+  canManageTeams: boolean;
 }
 
 export const rolePermissions: Record<Role, RolePermissions> = {
@@ -15,6 +20,9 @@ export const rolePermissions: Record<Role, RolePermissions> = {
     canEditProfile: true,
     canAccessJobBoard: true,
     canManageBilling: true,
+    canManageScores: true,
+    canManageRecommendations: true,
+    canManageTeams: true,
   },
   coach: {
     canManageUsers: false,
@@ -22,6 +30,9 @@ export const rolePermissions: Record<Role, RolePermissions> = {
     canEditProfile: true,
     canAccessJobBoard: true,
     canManageBilling: false,
+    canManageScores: true,
+    canManageRecommendations: true,
+    canManageTeams: true,
   },
   athlete: {
     canManageUsers: false,
@@ -29,6 +40,9 @@ export const rolePermissions: Record<Role, RolePermissions> = {
     canEditProfile: true,
     canAccessJobBoard: false,
     canManageBilling: false,
+    canManageScores: false,
+    canManageRecommendations: false,
+    canManageTeams: false,
   },
   viewer: {
     canManageUsers: false,
@@ -36,5 +50,8 @@ export const rolePermissions: Record<Role, RolePermissions> = {
     canEditProfile: false,
     canAccessJobBoard: false,
     canManageBilling: false,
+    canManageScores: false,
+    canManageRecommendations: false,
+    canManageTeams: false,
   },
 };
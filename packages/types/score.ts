@@ -0,0 +1,82 @@
+import { Schema } from './validation';
+
+export interface AthleteScore {
+  id: string;
+  userId: string;
+  category: string;
+  score: number;
+  notes?: string;
+  recordedAt: Date;
+}
+
+export interface CreateScoreInput {
+  category: string;
+  score: number;
+  notes?: string;
+  recordedAt?: string;
+}
+
+export const createScoreSchema: Schema<CreateScoreInput> = {
+  category: { type: 'string', maxLength: 100 },
+  score: { type: 'number', min: 0, max: 100 },
+  notes: { type: 'string', maxLength: 2000, optional: true },
+  recordedAt: { type: 'string', format: 'date', optional: true },
+};
+
+// A bulk import row identifies the athlete by user ID or email
+export interface BulkScoreRow extends CreateScoreInput {
+  athlete: string;
+}
+
+// Kept low enough that an import stays well within D1's per-request query limit
+export const MAX_BULK_SCORE_ROWS = 500;
+
+// A JSON import; a bare array of rows is accepted too
+export interface BulkScoreImportInput {
+  rows: BulkScoreRow[];
+}
+
+// Only the shape is checked here; each row is validated on its own, and the
+// rows that fail are reported while the rest are imported
+export const bulkScoreImportSchema: Schema<BulkScoreImportInput> = {
+  rows: { type: 'array', items: { type: 'object' }, minItems: 1, maxItems: MAX_BULK_SCORE_ROWS },
+};
+
+export interface BulkScoreRowError {
+  row: number;
+  athlete?: string;
+  error: string;
+}
+
+export interface BulkScoreResult {
+  imported: number;
+  failed: number;
+  errors: BulkScoreRowError[];
+}
+
+// How score history is grouped: by UTC day, week (starting Monday) or month
+export type ScoreBucket = 'day' | 'week' | 'month';
+
+export const scoreBuckets: ScoreBucket[] = ['day', 'week', 'month'];
+
+// The scores recorded in one category during one bucket
+export interface ScoreHistoryPoint {
+  // First day of the bucket, YYYY-MM-DD
+  period: string;
+  average: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface ScoreHistorySeries {
+  category: string;
+  points: ScoreHistoryPoint[];
+}
+
+export interface ScoreHistory {
+  bucket: ScoreBucket;
+  from: string | null;
+  to: string | null;
+  categories: ScoreHistorySeries[];
+}
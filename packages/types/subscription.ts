@@ -0,0 +1,60 @@
+export type Plan = 'free' | 'pro' | 'elite';
+
+export const plans: Plan[] = ['free', 'pro', 'elite'];
+
+// Mirrors Stripe's subscription statuses
+export type SubscriptionStatus =
+  | 'trialing'
+  | 'active'
+  | 'past_due'
+  | 'canceled'
+  | 'unpaid'
+  | 'incomplete'
+  | 'incomplete_expired'
+  | 'paused';
+
+// Statuses under which a subscription's plan applies; anything else falls back to free
+export const entitledSubscriptionStatuses: SubscriptionStatus[] = ['trialing', 'active'];
+
+export interface PlanEntitlements {
+  // null means unlimited
+  maxAthletes: number | null;
+  analysisAccess: boolean;
+  customRecommendationRules: boolean;
+}
+
+// Entitlement flags that gate whole routes
+export type PlanFeature = {
+  [K in keyof PlanEntitlements]: PlanEntitlements[K] extends boolean ? K : never;
+}[keyof PlanEntitlements];
+
+export const planEntitlements: Record<Plan, PlanEntitlements> = {
+  free: {
+    maxAthletes: 25,
+    analysisAccess: false,
+    customRecommendationRules: false,
+  },
+  pro: {
+    maxAthletes: 200,
+    analysisAccess: true,
+    customRecommendationRules: false,
+  },
+  elite: {
+    maxAthletes: null,
+    analysisAccess: true,
+    customRecommendationRules: true,
+  },
+};
+
+export interface Subscription {
+  id: string;
+  organizationId: string;
+  stripeCustomerId: string;
+  priceId: string | null;
+  plan: Plan;
+  status: SubscriptionStatus;
+  currentPeriodEnd: Date | null;
+  cancelAtPeriodEnd: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,80 @@
+import { Schema } from './validation';
+
+export type TeamRole = 'head_coach' | 'assistant_coach' | 'athlete';
+
+export const teamRoles: TeamRole[] = ['head_coach', 'assistant_coach', 'athlete'];
+
+// Team roles that can see and record data for the team's athletes
+export const teamStaffRoles: TeamRole[] = ['head_coach', 'assistant_coach'];
+
+export type TeamInvitationStatus = 'pending' | 'accepted' | 'revoked';
+
+export interface Team {
+  id: string;
+  name: string;
+  sport?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TeamMember {
+  teamId: string;
+  userId: string;
+  role: TeamRole;
+  addedBy: string;
+  createdAt: Date;
+}
+
+export interface TeamInvitation {
+  id: string;
+  teamId: string;
+  email: string;
+  role: TeamRole;
+  token: string;
+  status: TeamInvitationStatus;
+  invitedBy: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface CreateTeamInput {
+  name: string;
+  sport?: string;
+}
+
+export interface UpdateTeamInput {
+  name?: string;
+  sport?: string | null;
+}
+
+export interface AddTeamMemberInput {
+  userId: string;
+  role: TeamRole;
+}
+
+export interface CreateTeamInvitationInput {
+  email: string;
+  role: TeamRole;
+}
+
+export const createTeamSchema: Schema<CreateTeamInput> = {
+  name: { type: 'string', maxLength: 100 },
+  sport: { type: 'string', maxLength: 100, optional: true },
+};
+
+// The sport may be cleared with null; the name may not
+export const updateTeamSchema: Schema<UpdateTeamInput> = {
+  name: { type: 'string', maxLength: 100, optional: true },
+  sport: { type: 'string', maxLength: 100, optional: true, nullable: true },
+};
+
+export const addTeamMemberSchema: Schema<AddTeamMemberInput> = {
+  userId: { type: 'string', maxLength: 255 },
+  role: { type: 'enum', values: teamRoles },
+};
+
+export const createTeamInvitationSchema: Schema<CreateTeamInvitationInput> = {
+  email: { type: 'string', format: 'email', maxLength: 254 },
+  role: { type: 'enum', values: teamRoles },
+};
@@ -0,0 +1,94 @@
+import { Schema } from './validation';
+
+export type TrainingIntensity = 'low' | 'medium' | 'high';
+
+export type WellnessMetricType = 'sleep' | 'nutrition' | 'recovery' | 'stress';
+
+export const trainingIntensities: TrainingIntensity[] = ['low', 'medium', 'high'];
+
+// Sleep is logged in hours; the other metrics are self-reported 1-10 ratings
+export const wellnessMetricRanges: Record<WellnessMetricType, { min: number; max: number }> = {
+  sleep: { min: 0, max: 24 },
+  nutrition: { min: 1, max: 10 },
+  recovery: { min: 1, max: 10 },
+  stress: { min: 1, max: 10 },
+};
+
+export interface TrainingSession {
+  id: string;
+  type: string;
+  duration: number; // minutes
+  intensity: TrainingIntensity;
+  date: Date;
+}
+
+export interface WellnessMetric {
+  type: WellnessMetricType;
+  value: number;
+  date: Date;
+}
+
+export interface CreateTrainingSessionInput {
+  type: string;
+  duration: number;
+  intensity: TrainingIntensity;
+  date?: string;
+  notes?: string;
+}
+
+export interface UpdateTrainingSessionInput {
+  type?: string;
+  duration?: number;
+  intensity?: TrainingIntensity;
+  date?: string;
+  notes?: string | null;
+}
+
+export interface CreateWellnessMetricInput {
+  type: WellnessMetricType;
+  value: number;
+  recordedAt?: string;
+  notes?: string;
+}
+
+// A daily check-in records any subset of the wellness metrics at once
+export type WellnessCheckInInput = Partial<Record<WellnessMetricType, number>> & {
+  date?: string;
+  notes?: string;
+};
+
+export const wellnessMetricTypes = Object.keys(wellnessMetricRanges) as WellnessMetricType[];
+
+export const createTrainingSessionSchema: Schema<CreateTrainingSessionInput> = {
+  type: { type: 'string', maxLength: 100 },
+  duration: { type: 'number', min: 1, description: 'Minutes' },
+  intensity: { type: 'enum', values: trainingIntensities },
+  date: { type: 'string', format: 'date', optional: true },
+  notes: { type: 'string', maxLength: 2000, optional: true },
+};
+
+// Notes may be cleared with null; the other fields may not
+export const updateTrainingSessionSchema: Schema<UpdateTrainingSessionInput> = {
+  type: { type: 'string', maxLength: 100, optional: true },
+  duration: { type: 'number', min: 1, optional: true, description: 'Minutes' },
+  intensity: { type: 'enum', values: trainingIntensities, optional: true },
+  date: { type: 'string', format: 'date', optional: true },
+  notes: { type: 'string', maxLength: 2000, optional: true, nullable: true },
+};
+
+// The value's range depends on the type, so it is checked once the type is known
+export const createWellnessMetricSchema: Schema<CreateWellnessMetricInput> = {
+  type: { type: 'enum', values: wellnessMetricTypes },
+  value: { type: 'number', description: 'Sleep in hours (0-24); the others a 1-10 rating' },
+  recordedAt: { type: 'string', format: 'date', optional: true },
+  notes: { type: 'string', maxLength: 2000, optional: true },
+};
+
+export const wellnessCheckInSchema: Schema<WellnessCheckInInput> = {
+  sleep: { type: 'number', ...wellnessMetricRanges.sleep, optional: true, description: 'Hours' },
+  nutrition: { type: 'number', ...wellnessMetricRanges.nutrition, optional: true },
+  recovery: { type: 'number', ...wellnessMetricRanges.recovery, optional: true },
+  stress: { type: 'number', ...wellnessMetricRanges.stress, optional: true },
+  date: { type: 'string', format: 'date', optional: true },
+  notes: { type: 'string', maxLength: 2000, optional: true },
+};
@@ -1,4 +1,5 @@
-import { Role } from './roles';
+import { Role, roles } from './roles';
+import { Schema } from './validation';
 
 export interface User {
   id: string;
@@ -6,6 +7,8 @@ export interface User {
   firstName: string;
   lastName: string;
   role: Role;
+  // Set once the user has been deleted in Clerk; their details are scrubbed
+  deletedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -14,6 +17,7 @@ export interface UserProfile extends User {
   avatar?: string;
   bio?: string;
   phone?: string;
+  sport?: string;
 }
 
 export interface CreateUserInput {
@@ -27,7 +31,26 @@ export interface UpdateUserInput {
   firstName?: string;
   lastName?: string;
   role?: Role;
-  avatar?: string;
-  bio?: string;
-  phone?: string;
+  avatar?: string | null;
+  bio?: string | null;
+  phone?: string | null;
+  sport?: string | null;
 }
+
+export const createUserSchema: Schema<CreateUserInput> = {
+  email: { type: 'string', format: 'email', maxLength: 254 },
+  firstName: { type: 'string', maxLength: 100 },
+  lastName: { type: 'string', maxLength: 100 },
+  role: { type: 'enum', values: roles, optional: true },
+};
+
+// Profile fields may be cleared with null; names and role may not
+export const updateUserSchema: Schema<UpdateUserInput> = {
+  firstName: { type: 'string', maxLength: 100, optional: true },
+  lastName: { type: 'string', maxLength: 100, optional: true },
+  role: { type: 'enum', values: roles, optional: true },
+  avatar: { type: 'string', format: 'url', maxLength: 2048, optional: true, nullable: true },
+  bio: { type: 'string', maxLength: 2000, optional: true, nullable: true },
+  phone: { type: 'string', maxLength: 32, optional: true, nullable: true },
+  sport: { type: 'string', maxLength: 100, optional: true, nullable: true },
+};
@@ -0,0 +1,189 @@
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+interface BaseRule {
+  // An absent field is left out of the result
+  optional?: boolean;
+  // null is kept as null; for strings, so is an empty string
+  nullable?: boolean;
+  // Shown in the API documentation
+  description?: string;
+}
+
+export interface StringRule extends BaseRule {
+  type: 'string';
+  // Counted after trimming; a required string is never empty
+  maxLength?: number;
+  format?: 'email' | 'url' | 'date';
+}
+
+export interface NumberRule extends BaseRule {
+  type: 'number';
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+export interface BooleanRule extends BaseRule {
+  type: 'boolean';
+}
+
+export interface EnumRule extends BaseRule {
+  type: 'enum';
+  values: readonly string[];
+}
+
+export interface ArrayRule extends BaseRule {
+  type: 'array';
+  items: FieldRule;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectRule extends BaseRule {
+  type: 'object';
+  // Checked like a body; without one, any object is accepted as it is
+  schema?: Record<string, FieldRule>;
+}
+
+export type FieldRule = StringRule | NumberRule | BooleanRule | EnumRule | ArrayRule | ObjectRule;
+
+// One rule for every field of T, so a schema cannot fall behind the input type it checks
+export type Schema<T> = { [K in keyof Required<T>]: FieldRule };
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: FieldError[] };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function checkString(rule: StringRule, value: string): string | null {
+  if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+    return `must be at most ${rule.maxLength} characters`;
+  }
+  if (rule.format === 'email' && !EMAIL_PATTERN.test(value)) {
+    return 'must be an email address';
+  }
+  if (rule.format === 'url' && !URL.canParse(value)) {
+    return 'must be a URL';
+  }
+  if (rule.format === 'date' && isNaN(new Date(value).getTime())) {
+    return 'must be a valid date';
+  }
+  return null;
+}
+
+function checkNumber(rule: NumberRule, value: number): string | null {
+  if (rule.integer && !Number.isInteger(value)) {
+    return 'must be a whole number';
+  }
+  if (rule.min !== undefined && value < rule.min) {
+    return `must be at least ${rule.min}`;
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    return `must be at most ${rule.max}`;
+  }
+  return null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks one value against its rule. Returns the value to keep, or undefined
+ * when it is absent or invalid; problems are added to `errors`.
+ */
+function checkField(rule: FieldRule, input: unknown, field: string, errors: FieldError[]): unknown {
+  let raw = input;
+  if (typeof raw === 'string') {
+    raw = raw.trim();
+    if (raw === '' && rule.type === 'string' && rule.nullable) raw = null;
+  }
+
+  if (raw === undefined || raw === '') {
+    if (!rule.optional) {
+      errors.push({ field, message: 'is required' });
+    }
+    return undefined;
+  }
+  if (raw === null) {
+    if (rule.nullable) {
+      return null;
+    }
+    errors.push({ field, message: rule.optional ? 'cannot be null' : 'is required' });
+    return undefined;
+  }
+
+  const errorCount = errors.length;
+  let problem: string | null = null;
+  switch (rule.type) {
+    case 'string':
+      problem = typeof raw !== 'string' ? 'must be a string' : checkString(rule, raw);
+      break;
+    case 'number':
+      problem = typeof raw !== 'number' || !Number.isFinite(raw) ? 'must be a number' : checkNumber(rule, raw);
+      break;
+    case 'boolean':
+      problem = typeof raw !== 'boolean' ? 'must be true or false' : null;
+      break;
+    case 'enum':
+      problem = !rule.values.includes(raw as string) ? `must be one of ${rule.values.join(', ')}` : null;
+      break;
+    case 'array':
+      if (!Array.isArray(raw)) {
+        problem = 'must be an array';
+      } else if (rule.minItems !== undefined && raw.length < rule.minItems) {
+        problem = `must have at least ${rule.minItems} ${rule.minItems === 1 ? 'item' : 'items'}`;
+      } else if (rule.maxItems !== undefined && raw.length > rule.maxItems) {
+        problem = `must have at most ${rule.maxItems} items`;
+      } else {
+        raw = raw.map((item, index) => checkField(rule.items, item, `${field}[${index}]`, errors));
+      }
+      break;
+    case 'object':
+      if (!isObject(raw)) {
+        problem = 'must be an object';
+      } else if (rule.schema) {
+        raw = checkObject(rule.schema, raw, `${field}.`, errors);
+      }
+      break;
+  }
+
+  if (problem) {
+    errors.push({ field, message: problem });
+  }
+  return errors.length > errorCount ? undefined : raw;
+}
+
+function checkObject(
+  schema: Record<string, FieldRule>,
+  body: Record<string, unknown>,
+  prefix: string,
+  errors: FieldError[]
+): Record<string, unknown> {
+  const value: Record<string, unknown> = {};
+  for (const [field, rule] of Object.entries(schema)) {
+    const checked = checkField(rule, body[field], `${prefix}${field}`, errors);
+    if (checked !== undefined) {
+      value[field] = checked;
+    }
+  }
+  return value;
+}
+
+/**
+ * Checks a request body against a schema and reports every invalid field,
+ * not just the first. Strings are trimmed and fields the schema does not
+ * name are dropped, so the value is safe to use as-is. Fields inside arrays
+ * and objects are reported by path, e.g. `conditions[0].metric`.
+ */
+export function validate<T>(schema: Schema<T>, input: unknown): ValidationResult<T> {
+  if (!isObject(input)) {
+    return { ok: false, errors: [{ field: '', message: 'must be a JSON object' }] };
+  }
+
+  const errors: FieldError[] = [];
+  const value = checkObject(schema, input, '', errors);
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: value as T };
+}
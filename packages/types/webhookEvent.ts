@@ -0,0 +1,14 @@
+export type WebhookEventStatus = 'processing' | 'processed' | 'failed';
+
+export const webhookEventStatuses: WebhookEventStatus[] = ['processing', 'processed', 'failed'];
+
+export interface WebhookEvent {
+  id: string;
+  type: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError: string | null;
+  receivedAt: Date;
+  processedAt: Date | null;
+  updatedAt: Date;
+}
@@ -0,0 +1,297 @@
+#!/usr/bin/env node
+/**
+ * Checks that the row types in packages/types match the schema the migrations
+ * build: every field has a column, every column is either a field or listed as
+ * deliberately left out, numbers are stored in numeric columns, and nullable
+ * columns are typed as nullable. Also checks that the down migrations undo
+ * everything the up migrations create, and that a database created from the
+ * original sql/schema.sql, rows and all, migrates to the same schema.
+ */
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+import { MIGRATIONS_TABLE, listMigrations, migrateDown, migrateUp, sqliteDatabase } from './migrations.mjs';
+
+const TYPES_DIR = resolve(dirname(fileURLToPath(import.meta.url)), '../packages/types');
+
+// The interface each table's rows are exposed as. `omitted` lists columns the
+// interface leaves out on purpose; `renamed` maps fields to columns whose name
+// is not the field's snake_case.
+const TABLE_TYPES = {
+  organizations: { module: 'organization', type: 'Organization' },
+  organization_members: { module: 'organization', type: 'OrganizationMember' },
+  users: { module: 'user', type: 'UserProfile', omitted: ['clerk_updated_at'] },
+  jobs: { module: 'job', type: 'Job', omitted: ['organization_id'] },
+  job_applications: { module: 'jobApplication', type: 'JobApplication', omitted: ['organization_id'] },
+  billing_records: { module: 'billing', type: 'BillingRecord' },
+  billing_record_history: { module: 'billing', type: 'BillingRecordHistoryEntry' },
+  athlete_scores: { module: 'score', type: 'AthleteScore', omitted: ['organization_id'] },
+  training_sessions: {
+    module: 'training',
+    type: 'TrainingSession',
+    renamed: { date: 'session_date' },
+    omitted: ['organization_id', 'user_id', 'notes', 'created_at', 'updated_at'],
+  },
+  wellness_metrics: {
+    module: 'training',
+    type: 'WellnessMetric',
+    renamed: { date: 'recorded_at' },
+    omitted: ['id', 'organization_id', 'user_id', 'notes', 'created_at'],
+  },
+  recommendation_rules: {
+    module: 'recommendationRule',
+    type: 'RecommendationRule',
+    omitted: ['organization_id', 'created_by', 'created_at', 'updated_at'],
+  },
+  teams: { module: 'team', type: 'Team', omitted: ['organization_id'] },
+  team_members: { module: 'team', type: 'TeamMember' },
+  team_invitations: { module: 'team', type: 'TeamInvitation' },
+  subscriptions: { module: 'subscription', type: 'Subscription' },
+  webhook_events: { module: 'webhookEvent', type: 'WebhookEvent', omitted: ['payload'] },
+  api_keys: { module: 'apiKey', type: 'ApiKey', omitted: ['key_hash'] },
+  audit_log: { module: 'auditLog', type: 'AuditLogEntry' },
+};
+
+// Tables with no row type, and why
+const UNTYPED_TABLES = {
+  athlete_analyses: 'snapshots are returned as the HolisticAgent analysis they store',
+};
+
+const NUMERIC_COLUMN = /INT|REAL|FLOA|DOUB/i;
+
+// Rows in a database created from the original sql/schema.sql, which the
+// upgrade must carry through every migration
+const LEGACY_ROWS = `
+INSERT INTO users (id, email, first_name, last_name, role) VALUES
+  ('user_coach', 'coach@example.com', 'Casey', 'Coach', 'coach'),
+  ('user_athlete', 'athlete@example.com', 'Alex', 'Athlete', 'athlete');
+INSERT INTO jobs (id, title, description, posted_by) VALUES
+  ('job_1', 'Strength coach', 'Runs the off-season strength programme', 'user_coach');
+INSERT INTO billing_records (id, user_id, amount, status) VALUES
+  ('billing_1', 'user_athlete', 4900, 'completed');
+INSERT INTO athlete_scores (id, user_id, category, score) VALUES
+  ('score_1', 'user_athlete', 'speed', 82.5);
+`;
+const LEGACY_TABLES = ['users', 'jobs', 'billing_records', 'athlete_scores'];
+
+// Tables, columns, indexes, triggers and foreign keys, in a comparable form
+const SCHEMA_SHAPE = `
+SELECT m.type, m.name, p.name AS detail, p.type AS columnType, p."notnull" AS "notNull", p.dflt_value AS defaultValue, p.pk AS primaryKey
+FROM sqlite_master m JOIN pragma_table_info(m.name) p WHERE m.type = 'table'
+UNION ALL
+SELECT m.type, m.name, f."from" || ' -> ' || f."table" || '.' || f."to", f.on_delete, NULL, NULL, NULL
+FROM sqlite_master m JOIN pragma_foreign_key_list(m.name) f WHERE m.type = 'table'
+UNION ALL
+SELECT type, name, tbl_name, NULL, NULL, NULL, NULL FROM sqlite_master WHERE type IN ('index', 'trigger')
+ORDER BY 1, 2, 3`;
+
+function snakeCase(name) {
+  return name.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+}
+
+function loadSchema() {
+  const dir = mkdtempSync(join(tmpdir(), 'schema-check-'));
+  try {
+    const db = sqliteDatabase(join(dir, 'schema.sqlite'));
+    migrateUp(db);
+
+    const columns = db.query(
+      `SELECT m.name AS tableName, m.sql AS tableSql, p.name AS columnName, p.type AS columnType,
+              p."notnull" AS "notNull", p.dflt_value AS defaultValue, p.pk AS primaryKey
+       FROM sqlite_master m JOIN pragma_table_info(m.name) p
+       WHERE m.type = 'table'
+       ORDER BY m.name, p.cid`
+    );
+    const shape = db.query(SCHEMA_SHAPE);
+
+    // Undo everything and see what is left behind
+    migrateDown(db, { steps: Infinity });
+    const leftovers = db.query(
+      `SELECT type, name FROM sqlite_master
+       WHERE name NOT LIKE 'sqlite_%' AND name != '${MIGRATIONS_TABLE}'`
+    );
+
+    return { columns, leftovers, shape };
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Creates a database the way sql/schema.sql used to, with the first
+ * migration's statements and no migrations table, adds a few rows and
+ * migrates it up.
+ * @returns {string[]} what went wrong
+ */
+function checkLegacyUpgrade(freshShape) {
+  const dir = mkdtempSync(join(tmpdir(), 'schema-upgrade-'));
+  try {
+    const db = sqliteDatabase(join(dir, 'legacy.sqlite'));
+    db.execute(`${readFileSync(listMigrations()[0].up, 'utf8')}\n${LEGACY_ROWS}`);
+    const before = Object.fromEntries(
+      LEGACY_TABLES.map((table) => [table, db.query(`SELECT COUNT(*) AS count FROM ${table}`)[0].count])
+    );
+
+    try {
+      migrateUp(db);
+    } catch (error) {
+      return [`A database created from the original sql/schema.sql fails to migrate: ${error.message}`];
+    }
+
+    const problems = [];
+    const shape = (rows) => new Set(rows.map((row) => JSON.stringify(row)));
+    const fresh = shape(freshShape);
+    const upgraded = shape(db.query(SCHEMA_SHAPE));
+    for (const row of upgraded) {
+      if (!fresh.has(row)) {
+        problems.push(`An upgraded database has ${row}, which a new one does not`);
+      }
+    }
+    for (const row of fresh) {
+      if (!upgraded.has(row)) {
+        problems.push(`An upgraded database lacks ${row}, which a new one has`);
+      }
+    }
+    for (const table of LEGACY_TABLES) {
+      const count = db.query(`SELECT COUNT(*) AS count FROM ${table}`)[0].count;
+      if (count !== before[table]) {
+        problems.push(`Upgrading a database created from the original sql/schema.sql left ${count} of ${before[table]} rows in ${table}`);
+      }
+    }
+    return problems;
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function loadInterfaces() {
+  const files = readdirSync(TYPES_DIR)
+    .filter((file) => file.endsWith('.ts'))
+    .map((file) => join(TYPES_DIR, file));
+  const program = ts.createProgram(files, { strict: true, noEmit: true });
+  const checker = program.getTypeChecker();
+
+  return (module, name) => {
+    const source = program.getSourceFile(join(TYPES_DIR, `${module}.ts`));
+    const declaration = source?.statements.find(
+      (statement) => ts.isInterfaceDeclaration(statement) && statement.name.text === name
+    );
+    if (!declaration) {
+      return null;
+    }
+
+    const type = checker.getTypeAtLocation(declaration.name);
+    return checker.getPropertiesOfType(type).map((property) => {
+      const propertyType = checker.getTypeOfSymbolAtLocation(property, declaration);
+      const parts = (propertyType.isUnion() ? propertyType.types : [propertyType])
+        .filter((part) => !(part.flags & ts.TypeFlags.Undefined));
+      const values = parts.filter((part) => !(part.flags & ts.TypeFlags.Null));
+
+      return {
+        name: property.name,
+        optional: (property.flags & ts.SymbolFlags.Optional) !== 0,
+        nullable: values.length < parts.length,
+        numeric: values.length > 0 && values.every(
+          (part) => part.flags & (ts.TypeFlags.NumberLike | ts.TypeFlags.BooleanLike)
+        ),
+        type: checker.typeToString(propertyType),
+      };
+    });
+  };
+}
+
+const problems = [];
+const { columns, leftovers, shape } = loadSchema();
+const getInterface = loadInterfaces();
+
+problems.push(...checkLegacyUpgrade(shape));
+
+for (const { type, name } of leftovers) {
+  problems.push(`The down migrations leave ${type} ${name} behind`);
+}
+
+const virtualTables = columns
+  .filter((column) => /^CREATE VIRTUAL TABLE/i.test(column.tableSql))
+  .map((column) => column.tableName);
+const tables = new Map();
+for (const column of columns) {
+  const isInternal = column.tableName.startsWith('sqlite_') || column.tableName === MIGRATIONS_TABLE;
+  // Virtual tables and the shadow tables behind them are not rows anyone reads
+  const isVirtual = virtualTables.some((name) => column.tableName === name || column.tableName.startsWith(`${name}_`));
+  if (isInternal || isVirtual || column.tableName in UNTYPED_TABLES) {
+    continue;
+  }
+  if (!tables.has(column.tableName)) {
+    tables.set(column.tableName, []);
+  }
+  tables.get(column.tableName).push(column);
+}
+
+for (const [table, tableColumns] of tables) {
+  const mapping = TABLE_TYPES[table];
+  if (!mapping) {
+    problems.push(`${table} has no row type; add it to TABLE_TYPES or UNTYPED_TABLES in scripts/check-schema-types.mjs`);
+    continue;
+  }
+
+  const fields = getInterface(mapping.module, mapping.type);
+  if (!fields) {
+    problems.push(`${table}: interface ${mapping.type} not found in packages/types/${mapping.module}.ts`);
+    continue;
+  }
+
+  const label = `${mapping.type} (${table})`;
+  const columnsByName = new Map(tableColumns.map((column) => [column.columnName, column]));
+  const omitted = new Set(mapping.omitted ?? []);
+  const mapped = new Set();
+
+  for (const field of fields) {
+    const columnName = mapping.renamed?.[field.name] ?? snakeCase(field.name);
+    const column = columnsByName.get(columnName);
+    if (!column) {
+      problems.push(`${label}: ${field.name} has no column ${columnName}`);
+      continue;
+    }
+    mapped.add(columnName);
+
+    const numericColumn = NUMERIC_COLUMN.test(column.columnType);
+    if (field.numeric !== numericColumn) {
+      problems.push(`${label}: ${field.name} is ${field.type} but ${columnName} is ${column.columnType}`);
+    }
+
+    const nullableColumn = !column.notNull && !column.primaryKey && column.defaultValue === null;
+    if (nullableColumn && !field.nullable && !field.optional) {
+      problems.push(`${label}: ${columnName} may be NULL but ${field.name} is ${field.type}`);
+    }
+    if (column.notNull && field.nullable) {
+      problems.push(`${label}: ${columnName} is NOT NULL but ${field.name} is ${field.type}`);
+    }
+  }
+
+  for (const columnName of columnsByName.keys()) {
+    if (!mapped.has(columnName) && !omitted.has(columnName)) {
+      problems.push(`${label}: column ${columnName} has no field; add one or list it as omitted`);
+    }
+  }
+  for (const columnName of omitted) {
+    if (!columnsByName.has(columnName)) {
+      problems.push(`${label}: omitted column ${columnName} does not exist`);
+    } else if (mapped.has(columnName)) {
+      problems.push(`${label}: omitted column ${columnName} has a field`);
+    }
+  }
+}
+
+for (const table of Object.keys(TABLE_TYPES)) {
+  if (!tables.has(table)) {
+    problems.push(`${table} is in TABLE_TYPES but not in the schema`);
+  }
+}
+
+if (problems.length > 0) {
+  console.error(`packages/types does not match the schema:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+  process.exit(1);
+}
+console.log(`packages/types matches the schema (${tables.size} tables checked)`);
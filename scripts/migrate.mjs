@@ -0,0 +1,139 @@
+#!/usr/bin/env node
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  DOWN_MIGRATIONS_DIR,
+  MIGRATIONS_DIR,
+  appliedMigrations,
+  d1Database,
+  listMigrations,
+  migrateDown,
+  migrateUp,
+  sqliteDatabase,
+} from './migrations.mjs';
+
+const USAGE = `Usage: node scripts/migrate.mjs <command> [target]
+
+Commands:
+  status             List migrations and whether each has been applied
+  up [version]       Apply pending migrations, up to and including version
+  down [steps]       Revert the most recent migrations (default 1)
+  new <description>  Create the next numbered up and down migration files
+
+Target (status, up and down):
+  --sqlite <file>    A local SQLite database file, through the sqlite3 CLI
+  --d1 <database>    A D1 database through wrangler; local unless --remote
+  --remote           With --d1, the deployed database`;
+
+function fail(message) {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+let args;
+try {
+  args = parseArgs({
+    allowPositionals: true,
+    options: {
+      sqlite: { type: 'string' },
+      d1: { type: 'string' },
+      remote: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+} catch (error) {
+  fail(error.message);
+}
+
+const { values, positionals } = args;
+const [command, argument] = positionals;
+
+function positiveInteger(value, label) {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    fail(`${label} must be a positive integer`);
+  }
+  return number;
+}
+
+function openDatabase() {
+  if (values.sqlite && values.d1) {
+    fail('Use either --sqlite or --d1, not both');
+  }
+  if (values.sqlite) {
+    return sqliteDatabase(values.sqlite);
+  }
+  if (values.d1) {
+    return d1Database(values.d1, { remote: values.remote });
+  }
+  fail('Choose a database with --sqlite <file> or --d1 <database>');
+}
+
+function createMigration(description) {
+  const slug = description?.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  if (!slug) {
+    fail('new needs a description, e.g. "add athlete goals"');
+  }
+
+  const migrations = listMigrations();
+  const version = (migrations.length > 0 ? migrations[migrations.length - 1].version : 0) + 1;
+  const name = `${String(version).padStart(4, '0')}_${slug}.sql`;
+
+  writeFileSync(join(MIGRATIONS_DIR, name), `-- ${description}\n`, { flag: 'wx' });
+  writeFileSync(join(DOWN_MIGRATIONS_DIR, name), `-- Reverts ${name.replace(/\.sql$/, '')}\n`, { flag: 'wx' });
+  console.log(`Created sql/migrations/${name} and sql/migrations/down/${name}`);
+}
+
+function printStatus(db) {
+  const applied = appliedMigrations(db);
+  const migrations = listMigrations();
+  const known = new Set(migrations.map((migration) => migration.name));
+
+  console.log(`Migrations on ${db.label}:`);
+  for (const migration of migrations) {
+    console.log(`  ${applied.includes(migration.name) ? 'applied' : 'pending'}  ${migration.name}`);
+  }
+  for (const name of applied.filter((name) => !known.has(name))) {
+    console.log(`  missing  ${name} (applied, but not in sql/migrations)`);
+  }
+}
+
+if (values.help || !command) {
+  console.log(USAGE);
+  process.exit(values.help ? 0 : 1);
+}
+
+try {
+  switch (command) {
+    case 'status':
+      printStatus(openDatabase());
+      break;
+
+    case 'up': {
+      const db = openDatabase();
+      const to = argument === undefined ? Infinity : positiveInteger(argument, 'version');
+      const applied = migrateUp(db, { to, log: console.log });
+      console.log(applied.length > 0 ? `Applied ${applied.length} migration(s) to ${db.label}` : `${db.label} is up to date`);
+      break;
+    }
+
+    case 'down': {
+      const db = openDatabase();
+      const steps = argument === undefined ? 1 : positiveInteger(argument, 'steps');
+      const reverted = migrateDown(db, { steps, log: console.log });
+      console.log(reverted.length > 0 ? `Reverted ${reverted.length} migration(s) on ${db.label}` : 'Nothing to revert');
+      break;
+    }
+
+    case 'new':
+      createMigration(positionals.slice(1).join(' '));
+      break;
+
+    default:
+      fail(`Unknown command: ${command}`);
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,186 @@
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export const MIGRATIONS_DIR = resolve(dirname(fileURLToPath(import.meta.url)), '../sql/migrations');
+// Kept out of MIGRATIONS_DIR itself, where wrangler would apply them as up migrations
+export const DOWN_MIGRATIONS_DIR = join(MIGRATIONS_DIR, 'down');
+
+// The table and layout `wrangler d1 migrations apply` uses, so either tool can
+// apply migrations and both see the same history
+export const MIGRATIONS_TABLE = 'd1_migrations';
+
+const CREATE_MIGRATIONS_TABLE = `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT UNIQUE,
+  applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);`;
+
+const MIGRATION_FILE = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+/**
+ * @typedef {object} Migration
+ * @property {number} version
+ * @property {string} name file name, e.g. "0001_initial.sql", as recorded in d1_migrations
+ * @property {string} up path of the up migration
+ * @property {string} down path of the down migration, which may not exist
+ */
+
+/**
+ * @typedef {object} Database
+ * @property {string} label
+ * @property {(sql: string) => Record<string, unknown>[]} query runs one statement and returns its rows
+ * @property {(sql: string) => void} execute runs a script, all or nothing where the database allows it
+ */
+
+/**
+ * Lists the migrations in sql/migrations in the order they apply.
+ * @returns {Migration[]}
+ */
+export function listMigrations() {
+  const migrations = readdirSync(MIGRATIONS_DIR)
+    .filter((file) => file.endsWith('.sql'))
+    .sort()
+    .map((file) => {
+      const match = MIGRATION_FILE.exec(file);
+      if (!match) {
+        throw new Error(`Migration ${file} must be named NNNN_description.sql in lowercase`);
+      }
+      return {
+        version: Number(match[1]),
+        name: file,
+        up: join(MIGRATIONS_DIR, file),
+        down: join(DOWN_MIGRATIONS_DIR, file),
+      };
+    });
+
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version === migrations[index - 1].version) {
+      throw new Error(`Migrations ${migrations[index - 1].name} and ${migration.name} share version ${migration.version}`);
+    }
+  });
+  return migrations;
+}
+
+/**
+ * A local SQLite database file, through the sqlite3 CLI. Foreign keys are
+ * enforced, as they are on D1.
+ * @param {string} file
+ * @returns {Database}
+ */
+export function sqliteDatabase(file) {
+  const sqlite3 = (args, input) =>
+    execFileSync('sqlite3', ['-bail', ...args, file], {
+      input: `PRAGMA foreign_keys = ON;\n${input}`,
+      encoding: 'utf8',
+      stdio: ['pipe', 'pipe', 'inherit'],
+    });
+
+  return {
+    label: file,
+    query(sql) {
+      const output = sqlite3(['-json'], sql).trim();
+      return output ? JSON.parse(output) : [];
+    },
+    execute(sql) {
+      // -bail exits at the first error, which rolls back the open transaction
+      sqlite3([], `BEGIN;\n${sql}\nCOMMIT;\n`);
+    },
+  };
+}
+
+/**
+ * A D1 database, through `wrangler d1 execute`: the local development copy
+ * by default, or the deployed one with `remote`.
+ * @param {string} name database name or binding from wrangler.toml
+ * @param {{ remote?: boolean }} [options]
+ * @returns {Database}
+ */
+export function d1Database(name, { remote = false } = {}) {
+  const wrangler = (args) =>
+    execFileSync('npx', ['wrangler', 'd1', 'execute', name, remote ? '--remote' : '--local', ...args], {
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+
+  return {
+    label: `${name} (${remote ? 'remote' : 'local'} D1)`,
+    query(sql) {
+      const results = JSON.parse(wrangler(['--json', '--command', sql]));
+      return results[results.length - 1]?.results ?? [];
+    },
+    execute(sql) {
+      // D1 runs a file as one batch; it does not accept BEGIN and COMMIT
+      const dir = mkdtempSync(join(tmpdir(), 'migration-'));
+      try {
+        const file = join(dir, 'migration.sql');
+        writeFileSync(file, sql);
+        wrangler(['--file', file, '--yes']);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+/**
+ * Returns the names of the migrations applied to a database, oldest first.
+ * @param {Database} db
+ * @returns {string[]}
+ */
+export function appliedMigrations(db) {
+  db.query(CREATE_MIGRATIONS_TABLE);
+  return db.query(`SELECT name FROM ${MIGRATIONS_TABLE} ORDER BY id`).map((row) => String(row.name));
+}
+
+/**
+ * Applies pending migrations in order, each together with its d1_migrations
+ * row, stopping after version `to` when given.
+ * @param {Database} db
+ * @param {{ to?: number, log?: (message: string) => void }} [options]
+ * @returns {Migration[]} the migrations applied
+ */
+export function migrateUp(db, { to = Infinity, log = () => {} } = {}) {
+  const applied = new Set(appliedMigrations(db));
+  const pending = listMigrations().filter((migration) => !applied.has(migration.name) && migration.version <= to);
+
+  for (const migration of pending) {
+    log(`Applying ${migration.name}`);
+    db.execute(
+      `${readFileSync(migration.up, 'utf8')}\n` +
+      `INSERT INTO ${MIGRATIONS_TABLE} (name) VALUES ('${migration.name}');\n`
+    );
+  }
+  return pending;
+}
+
+/**
+ * Reverts the most recently applied migrations, newest first.
+ * @param {Database} db
+ * @param {{ steps?: number, log?: (message: string) => void }} [options]
+ * @returns {Migration[]} the migrations reverted
+ */
+export function migrateDown(db, { steps = 1, log = () => {} } = {}) {
+  const migrations = new Map(listMigrations().map((migration) => [migration.name, migration]));
+  const reverting = appliedMigrations(db).reverse().slice(0, steps).map((name) => {
+    const migration = migrations.get(name);
+    if (!migration) {
+      throw new Error(`${name} was applied but is not in ${MIGRATIONS_DIR}`);
+    }
+    if (!existsSync(migration.down)) {
+      throw new Error(`${name} has no down migration in ${DOWN_MIGRATIONS_DIR}`);
+    }
+    return migration;
+  });
+
+  for (const migration of reverting) {
+    log(`Reverting ${migration.name}`);
+    db.execute(
+      `${readFileSync(migration.down, 'utf8')}\n` +
+      `DELETE FROM ${MIGRATIONS_TABLE} WHERE name = '${migration.name}';\n`
+    );
+  }
+  return reverting;
+}
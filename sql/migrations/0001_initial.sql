@@ -1,4 +1,6 @@
--- Apex Athletics OS Database Schema
+-- Apex Athletics OS Database Schema: the original sql/schema.sql
+-- Kept as it was, with IF NOT EXISTS, so databases created from that file can record
+-- this as applied; later migrations bring them up to date
 
 -- Users table
 CREATE TABLE IF NOT EXISTS users (
@@ -0,0 +1,106 @@
+-- Scope data to organizations (clubs) sharing this deployment
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  clerk_org_id TEXT UNIQUE,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Organization membership; users may belong to several organizations
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (organization_id, user_id),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id),
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_org_members_user ON organization_members(user_id);
+
+-- Data from before organizations moves into one default organization, which
+-- every existing user joins as a member; global admins keep their role
+INSERT INTO organizations (id, name, slug)
+SELECT 'org_default', 'Default organization', 'default'
+WHERE EXISTS (SELECT 1 FROM users);
+
+INSERT INTO organization_members (organization_id, user_id, role)
+SELECT 'org_default', id, 'member' FROM users;
+
+-- SQLite cannot add a NOT NULL or foreign key column in place, so each table
+-- is rebuilt with organization_id and its rows copied across
+
+CREATE TABLE jobs_new (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  location TEXT,
+  salary_min INTEGER,
+  salary_max INTEGER,
+  posted_by TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (posted_by) REFERENCES users(id),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+INSERT INTO jobs_new (id, organization_id, title, description, location, salary_min, salary_max, posted_by, status, created_at, updated_at)
+SELECT id, 'org_default', title, description, location, salary_min, salary_max, posted_by, status, created_at, updated_at
+FROM jobs;
+
+DROP TABLE jobs;
+ALTER TABLE jobs_new RENAME TO jobs;
+
+CREATE TABLE billing_records_new (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT,
+  user_id TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  status TEXT NOT NULL DEFAULT 'pending',
+  stripe_payment_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+INSERT INTO billing_records_new (id, organization_id, user_id, amount, currency, status, stripe_payment_id, created_at, updated_at)
+SELECT id, 'org_default', user_id, amount, currency, status, stripe_payment_id, created_at, updated_at
+FROM billing_records;
+
+DROP TABLE billing_records;
+ALTER TABLE billing_records_new RENAME TO billing_records;
+
+CREATE TABLE athlete_scores_new (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  category TEXT NOT NULL,
+  score REAL NOT NULL,
+  notes TEXT,
+  recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+INSERT INTO athlete_scores_new (id, organization_id, user_id, category, score, notes, recorded_at)
+SELECT id, 'org_default', user_id, category, score, notes, recorded_at
+FROM athlete_scores;
+
+DROP TABLE athlete_scores;
+ALTER TABLE athlete_scores_new RENAME TO athlete_scores;
+
+-- Dropping the old tables dropped their indexes
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+CREATE INDEX IF NOT EXISTS idx_billing_user ON billing_records(user_id);
+CREATE INDEX IF NOT EXISTS idx_scores_user ON athlete_scores(user_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_org ON jobs(organization_id);
+CREATE INDEX IF NOT EXISTS idx_billing_org ON billing_records(organization_id);
+CREATE INDEX IF NOT EXISTS idx_scores_org_user ON athlete_scores(organization_id, user_id);
@@ -0,0 +1,74 @@
+-- Training load, wellness check-ins, HolisticAgent snapshots and recommendation rules
+
+-- The athlete's sport, which selects the recommendation rules that apply
+ALTER TABLE users ADD COLUMN sport TEXT;
+
+-- Training sessions logged by athletes and coaches
+CREATE TABLE IF NOT EXISTS training_sessions (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  duration INTEGER NOT NULL,
+  intensity TEXT NOT NULL,
+  notes TEXT,
+  session_date DATETIME DEFAULT CURRENT_TIMESTAMP,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+-- Wellness metrics (sleep, nutrition, recovery, stress) from daily check-ins
+CREATE TABLE IF NOT EXISTS wellness_metrics (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  value REAL NOT NULL,
+  notes TEXT,
+  recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_training_user_date ON training_sessions(user_id, session_date);
+CREATE INDEX IF NOT EXISTS idx_wellness_user_date ON wellness_metrics(user_id, recorded_at);
+
+-- Snapshots of HolisticAgent analyses, kept so results can be compared over time
+CREATE TABLE IF NOT EXISTS athlete_analyses (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  overall_score REAL NOT NULL,
+  analysis TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_analyses_org_user_date ON athlete_analyses(organization_id, user_id, created_at);
+
+-- Recommendation rules evaluated by HolisticAgent; a NULL sport applies to every sport in the organization
+CREATE TABLE IF NOT EXISTS recommendation_rules (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  sport TEXT,
+  category_filter TEXT,
+  conditions TEXT NOT NULL,
+  priority TEXT NOT NULL,
+  category TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (created_by) REFERENCES users(id),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rules_org_sport ON recommendation_rules(organization_id, sport);
+
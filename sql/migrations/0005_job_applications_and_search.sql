@@ -0,0 +1,48 @@
+-- Job applications and keyword search over job postings
+
+-- Applications to job board postings; each user applies to a job at most once
+CREATE TABLE IF NOT EXISTS job_applications (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  job_id TEXT NOT NULL,
+  applicant_id TEXT NOT NULL,
+  cover_note TEXT NOT NULL,
+  profile_url TEXT NOT NULL,
+  stage TEXT NOT NULL DEFAULT 'submitted',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (job_id, applicant_id),
+  FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE CASCADE,
+  FOREIGN KEY (applicant_id) REFERENCES users(id),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_applications_job_stage ON job_applications(job_id, stage);
+CREATE INDEX IF NOT EXISTS idx_job_applications_applicant ON job_applications(organization_id, applicant_id);
+
+-- Keyword search over job titles and descriptions, kept in sync with jobs by triggers
+CREATE VIRTUAL TABLE IF NOT EXISTS jobs_fts USING fts5(
+  title,
+  description,
+  content = 'jobs',
+  content_rowid = 'rowid',
+  tokenize = 'porter unicode61'
+);
+
+CREATE TRIGGER IF NOT EXISTS jobs_fts_insert AFTER INSERT ON jobs BEGIN
+  INSERT INTO jobs_fts (rowid, title, description) VALUES (new.rowid, new.title, new.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS jobs_fts_delete AFTER DELETE ON jobs BEGIN
+  INSERT INTO jobs_fts (jobs_fts, rowid, title, description) VALUES ('delete', old.rowid, old.title, old.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS jobs_fts_update AFTER UPDATE OF title, description ON jobs BEGIN
+  INSERT INTO jobs_fts (jobs_fts, rowid, title, description) VALUES ('delete', old.rowid, old.title, old.description);
+  INSERT INTO jobs_fts (rowid, title, description) VALUES (new.rowid, new.title, new.description);
+END;
+
+-- Index jobs that existed before the search table
+INSERT INTO jobs_fts (jobs_fts) VALUES ('rebuild');
+
+CREATE INDEX IF NOT EXISTS idx_jobs_org_status_created ON jobs(organization_id, status, created_at);
@@ -0,0 +1,8 @@
+-- Job drafts, scheduled publishing, expiry and archiving
+
+ALTER TABLE jobs ADD COLUMN publish_at DATETIME;
+ALTER TABLE jobs ADD COLUMN expires_at DATETIME;
+ALTER TABLE jobs ADD COLUMN archived_at DATETIME;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_publish ON jobs(status, publish_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_status_expires ON jobs(status, expires_at);
@@ -0,0 +1,80 @@
+-- Stripe subscriptions, the webhook event log, and refunds, disputes and invoices on billing records
+
+-- Stripe subscriptions, kept in sync by the billing webhook; the id is Stripe's subscription ID
+CREATE TABLE IF NOT EXISTS subscriptions (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT NOT NULL,
+  stripe_customer_id TEXT NOT NULL,
+  price_id TEXT,
+  plan TEXT NOT NULL DEFAULT 'free',
+  status TEXT NOT NULL,
+  current_period_end DATETIME,
+  cancel_at_period_end INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_org ON subscriptions(organization_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_customer ON subscriptions(stripe_customer_id);
+
+-- Every Stripe event received, keyed by Stripe's event ID so retried deliveries are applied once
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  received_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  processed_at DATETIME,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, received_at);
+
+-- Rebuilt so user_id may be NULL, which SQLite cannot change in place, and to
+-- add the refunded amount and the Stripe invoice behind subscription charges
+CREATE TABLE billing_records_new (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT,
+  -- NULL for organization-level charges such as subscription invoices
+  user_id TEXT,
+  amount INTEGER NOT NULL,
+  refunded_amount INTEGER NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  status TEXT NOT NULL DEFAULT 'pending',
+  stripe_payment_id TEXT,
+  stripe_invoice_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+INSERT INTO billing_records_new (id, organization_id, user_id, amount, currency, status, stripe_payment_id, created_at, updated_at)
+SELECT id, organization_id, user_id, amount, currency, status, stripe_payment_id, created_at, updated_at
+FROM billing_records;
+
+DROP TABLE billing_records;
+ALTER TABLE billing_records_new RENAME TO billing_records;
+
+CREATE INDEX IF NOT EXISTS idx_billing_user ON billing_records(user_id);
+CREATE INDEX IF NOT EXISTS idx_billing_org ON billing_records(organization_id);
+CREATE INDEX IF NOT EXISTS idx_billing_org_user_created ON billing_records(organization_id, user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_billing_payment ON billing_records(stripe_payment_id);
+CREATE INDEX IF NOT EXISTS idx_billing_invoice ON billing_records(stripe_invoice_id);
+
+-- Every status a billing record has had, with the Stripe event that caused it
+CREATE TABLE IF NOT EXISTS billing_record_history (
+  id TEXT PRIMARY KEY,
+  billing_record_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  amount INTEGER,
+  stripe_event_id TEXT,
+  note TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (billing_record_id) REFERENCES billing_records(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_history_record ON billing_record_history(billing_record_id, created_at);
@@ -0,0 +1,6 @@
+-- Users synced from Clerk webhooks
+
+-- Clerk's updated_at (ms) for the profile last synced, to ignore stale webhooks
+ALTER TABLE users ADD COLUMN clerk_updated_at INTEGER;
+-- Set when the user is deleted in Clerk; the row is kept with details scrubbed
+ALTER TABLE users ADD COLUMN deleted_at DATETIME;
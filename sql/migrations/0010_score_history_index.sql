@@ -0,0 +1,2 @@
+-- Score history reads one athlete's scores per category over a date range
+CREATE INDEX IF NOT EXISTS idx_scores_org_user_category_recorded ON athlete_scores(organization_id, user_id, category, recorded_at);
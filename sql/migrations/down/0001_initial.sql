@@ -0,0 +1,6 @@
+-- Reverts 0001_initial: drops the original tables
+
+DROP TABLE IF EXISTS athlete_scores;
+DROP TABLE IF EXISTS billing_records;
+DROP TABLE IF EXISTS jobs;
+DROP TABLE IF EXISTS users;
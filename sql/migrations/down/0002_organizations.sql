@@ -0,0 +1,66 @@
+-- Reverts 0002_organizations: rebuilds the scoped tables without organization_id
+-- and drops the organization tables
+
+CREATE TABLE jobs_old (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  location TEXT,
+  salary_min INTEGER,
+  salary_max INTEGER,
+  posted_by TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (posted_by) REFERENCES users(id)
+);
+
+INSERT INTO jobs_old (id, title, description, location, salary_min, salary_max, posted_by, status, created_at, updated_at)
+SELECT id, title, description, location, salary_min, salary_max, posted_by, status, created_at, updated_at
+FROM jobs;
+
+DROP TABLE jobs;
+ALTER TABLE jobs_old RENAME TO jobs;
+
+CREATE TABLE billing_records_old (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  status TEXT NOT NULL DEFAULT 'pending',
+  stripe_payment_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+INSERT INTO billing_records_old (id, user_id, amount, currency, status, stripe_payment_id, created_at, updated_at)
+SELECT id, user_id, amount, currency, status, stripe_payment_id, created_at, updated_at
+FROM billing_records;
+
+DROP TABLE billing_records;
+ALTER TABLE billing_records_old RENAME TO billing_records;
+
+CREATE TABLE athlete_scores_old (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  category TEXT NOT NULL,
+  score REAL NOT NULL,
+  notes TEXT,
+  recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+);
+
+INSERT INTO athlete_scores_old (id, user_id, category, score, notes, recorded_at)
+SELECT id, user_id, category, score, notes, recorded_at
+FROM athlete_scores;
+
+DROP TABLE athlete_scores;
+ALTER TABLE athlete_scores_old RENAME TO athlete_scores;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+CREATE INDEX IF NOT EXISTS idx_billing_user ON billing_records(user_id);
+CREATE INDEX IF NOT EXISTS idx_scores_user ON athlete_scores(user_id);
+
+DROP TABLE IF EXISTS organization_members;
+DROP TABLE IF EXISTS organizations;
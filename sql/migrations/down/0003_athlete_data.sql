@@ -0,0 +1,8 @@
+-- Reverts 0003_athlete_data
+
+DROP TABLE IF EXISTS recommendation_rules;
+DROP TABLE IF EXISTS athlete_analyses;
+DROP TABLE IF EXISTS wellness_metrics;
+DROP TABLE IF EXISTS training_sessions;
+
+ALTER TABLE users DROP COLUMN sport;
@@ -0,0 +1,5 @@
+-- Reverts 0004_teams
+
+DROP TABLE IF EXISTS team_invitations;
+DROP TABLE IF EXISTS team_members;
+DROP TABLE IF EXISTS teams;
@@ -0,0 +1,10 @@
+-- Reverts 0005_job_applications_and_search
+
+DROP INDEX IF EXISTS idx_jobs_org_status_created;
+
+DROP TRIGGER IF EXISTS jobs_fts_insert;
+DROP TRIGGER IF EXISTS jobs_fts_delete;
+DROP TRIGGER IF EXISTS jobs_fts_update;
+DROP TABLE IF EXISTS jobs_fts;
+
+DROP TABLE IF EXISTS job_applications;
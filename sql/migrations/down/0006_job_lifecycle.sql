@@ -0,0 +1,8 @@
+-- Reverts 0006_job_lifecycle
+
+DROP INDEX IF EXISTS idx_jobs_status_publish;
+DROP INDEX IF EXISTS idx_jobs_status_expires;
+
+ALTER TABLE jobs DROP COLUMN publish_at;
+ALTER TABLE jobs DROP COLUMN expires_at;
+ALTER TABLE jobs DROP COLUMN archived_at;
@@ -0,0 +1,32 @@
+-- Reverts 0007_billing. Organization-level charges have no user, which the
+-- older billing_records cannot hold, so they are dropped.
+
+DROP TABLE IF EXISTS billing_record_history;
+
+CREATE TABLE billing_records_old (
+  id TEXT PRIMARY KEY,
+  organization_id TEXT,
+  user_id TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  status TEXT NOT NULL DEFAULT 'pending',
+  stripe_payment_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id),
+  FOREIGN KEY (organization_id) REFERENCES organizations(id)
+);
+
+INSERT INTO billing_records_old (id, organization_id, user_id, amount, currency, status, stripe_payment_id, created_at, updated_at)
+SELECT id, organization_id, user_id, amount, currency, status, stripe_payment_id, created_at, updated_at
+FROM billing_records
+WHERE user_id IS NOT NULL;
+
+DROP TABLE billing_records;
+ALTER TABLE billing_records_old RENAME TO billing_records;
+
+CREATE INDEX IF NOT EXISTS idx_billing_user ON billing_records(user_id);
+CREATE INDEX IF NOT EXISTS idx_billing_org ON billing_records(organization_id);
+
+DROP TABLE IF EXISTS webhook_events;
+DROP TABLE IF EXISTS subscriptions;
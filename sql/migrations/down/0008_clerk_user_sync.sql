@@ -0,0 +1,4 @@
+-- Reverts 0008_clerk_user_sync
+
+ALTER TABLE users DROP COLUMN clerk_updated_at;
+ALTER TABLE users DROP COLUMN deleted_at;
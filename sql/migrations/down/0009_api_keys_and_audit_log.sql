@@ -0,0 +1,7 @@
+-- Reverts 0009_api_keys_and_audit_log
+
+DROP TRIGGER IF EXISTS audit_log_no_update;
+DROP TRIGGER IF EXISTS audit_log_no_delete;
+DROP TABLE IF EXISTS audit_log;
+
+DROP TABLE IF EXISTS api_keys;
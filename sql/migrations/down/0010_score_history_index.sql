@@ -0,0 +1,3 @@
+-- Reverts 0002_score_history_index
+
+DROP INDEX IF EXISTS idx_scores_org_user_category_recorded;